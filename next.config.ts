@@ -0,0 +1,8 @@
+import type { NextConfig } from "next";
+
+const nextConfig: NextConfig = {
+  // all-the-cities reads its data file from its own directory, so it can't be bundled
+  serverExternalPackages: ["all-the-cities"],
+};
+
+export default nextConfig;
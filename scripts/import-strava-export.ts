@@ -0,0 +1,30 @@
+import { importStravaExport } from '@/lib/strava-export';
+
+/**
+ * Load the full activity history from Strava's "Download your data" archive
+ *
+ *   npm run strava:import -- ~/Downloads/export_12345678.zip
+ *
+ * Writes to the same store and stream cache the site syncs into (DATA_DIR, default _data/),
+ * so it can run before the first sync or at any time after.
+ */
+
+async function main() {
+  const archivePath = process.argv[2];
+  if (!archivePath) {
+    console.error('Usage: npm run strava:import -- <export.zip>');
+    process.exit(1);
+  }
+
+  const result = await importStravaExport(archivePath);
+
+  console.log(`Imported ${result.imported} activities, ${result.withRoutes} with routes`);
+  if (result.failedFiles.length > 0) {
+    console.log(`${result.failedFiles.length} route files could not be read and were imported without a route`);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,267 @@
+import { DetailedActivity, SportType } from '@/services/strava/api';
+import { StreamSet } from '@/lib/strava-streams';
+import { encodePolyline } from '@/lib/polyline';
+import { haversineDistance } from '@/lib/geo';
+
+/**
+ * Fixture data for the local Strava stand-in: a UK-to-France journey
+ * plus a year of London commutes before it, enough to need several pages
+ */
+
+export const MOCK_ATHLETE = {
+  id: 1000001,
+  username: 'mock_rider',
+  resource_state: 3,
+  firstname: 'Jasper',
+  lastname: 'Mock',
+  city: 'London',
+  country: 'United Kingdom',
+  sex: 'M',
+  premium: true,
+  profile_medium: '',
+  profile: '',
+  measurement_preference: 'meters',
+  created_at: '2018-01-01T00:00:00Z',
+  updated_at: '2025-03-01T00:00:00Z'
+};
+
+interface FixtureDay {
+  date: string;
+  name: string;
+  sportType: SportType;
+  timezone: string;
+  // Offset of the local timezone from UTC, in hours
+  utcOffset: number;
+  waypoints: [number, number][];
+  trainer?: boolean;
+  commute?: boolean;
+}
+
+// The journey itself; the Channel crossing and rest days are deliberate gaps
+const JOURNEY_DAYS: FixtureDay[] = [
+  { date: '2025-03-01', name: 'London to Canterbury', sportType: 'Ride', timezone: 'Europe/London', utcOffset: 0,
+    waypoints: [[51.5074, -0.1278], [51.4416, 0.1487], [51.3890, 0.5400], [51.2802, 1.0789]] },
+  { date: '2025-03-02', name: 'Canterbury to Dover', sportType: 'Ride', timezone: 'Europe/London', utcOffset: 0,
+    waypoints: [[51.2802, 1.0789], [51.2100, 1.2000], [51.1279, 1.3134]] },
+  { date: '2025-03-03', name: 'Calais to Saint-Omer', sportType: 'Ride', timezone: 'Europe/Paris', utcOffset: 1,
+    waypoints: [[50.9513, 1.8587], [50.8700, 2.0400], [50.7500, 2.2522]] },
+  { date: '2025-03-04', name: 'Saint-Omer to Arras', sportType: 'GravelRide', timezone: 'Europe/Paris', utcOffset: 1,
+    waypoints: [[50.7500, 2.2522], [50.5300, 2.4300], [50.2910, 2.7775]] },
+  { date: '2025-03-06', name: 'Arras to Amiens', sportType: 'Ride', timezone: 'Europe/Paris', utcOffset: 1,
+    waypoints: [[50.2910, 2.7775], [50.0900, 2.5300], [49.8941, 2.2958]] },
+  { date: '2025-03-07', name: 'Amiens to Beauvais', sportType: 'GravelRide', timezone: 'Europe/Paris', utcOffset: 1,
+    waypoints: [[49.8941, 2.2958], [49.6500, 2.1800], [49.4295, 2.0807]] },
+  { date: '2025-03-08', name: 'Beauvais to Paris', sportType: 'Ride', timezone: 'Europe/Paris', utcOffset: 1,
+    waypoints: [[49.4295, 2.0807], [49.1500, 2.2500], [48.8566, 2.3522]] },
+  { date: '2025-03-09', name: 'Wandering around Paris', sportType: 'Walk', timezone: 'Europe/Paris', utcOffset: 1,
+    waypoints: [[48.8566, 2.3522], [48.8606, 2.3376], [48.8584, 2.2945]] },
+  { date: '2025-03-10', name: 'Paris to Fontainebleau', sportType: 'Ride', timezone: 'Europe/Paris', utcOffset: 1,
+    waypoints: [[48.8566, 2.3522], [48.6300, 2.5000], [48.4047, 2.7016]] },
+  { date: '2025-03-11', name: 'Pushing up the Gorges de Franchard', sportType: 'Hike', timezone: 'Europe/Paris', utcOffset: 1,
+    waypoints: [[48.4047, 2.7016], [48.4100, 2.6300], [48.3950, 2.6600], [48.4047, 2.7016]] },
+  { date: '2025-03-12', name: 'Fontainebleau to Sens', sportType: 'MountainBikeRide', timezone: 'Europe/Paris', utcOffset: 1,
+    waypoints: [[48.4047, 2.7016], [48.3000, 3.0000], [48.1975, 3.2839]] },
+  { date: '2025-03-13', name: 'Sens to Auxerre', sportType: 'Ride', timezone: 'Europe/Paris', utcOffset: 1,
+    waypoints: [[48.1975, 3.2839], [48.0000, 3.4200], [47.7982, 3.5738]] },
+  { date: '2025-03-14', name: 'Hotel turbo session', sportType: 'VirtualRide', timezone: 'Europe/Paris', utcOffset: 1,
+    waypoints: [], trainer: true },
+  { date: '2025-03-15', name: 'Auxerre to Avallon', sportType: 'Ride', timezone: 'Europe/Paris', utcOffset: 1,
+    waypoints: [[47.7982, 3.5738], [47.6200, 3.7500], [47.4900, 3.9080]] },
+];
+
+/**
+ * Small deterministic PRNG so every run of the server serves identical fixtures
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+/**
+ * Interpolate waypoints into a dense, slightly wiggly track with a point roughly every 200 m
+ */
+function buildTrack(waypoints: [number, number][], random: () => number): [number, number][] {
+  const track: [number, number][] = [];
+
+  for (let i = 1; i < waypoints.length; i++) {
+    const from = waypoints[i - 1];
+    const to = waypoints[i];
+    const steps = Math.max(1, Math.round(haversineDistance(from, to) / 200));
+
+    for (let step = i === 1 ? 0 : 1; step <= steps; step++) {
+      const t = step / steps;
+      // No wiggle at the waypoints themselves so consecutive days join up
+      const wiggle = step === 0 || step === steps ? 0 : (random() - 0.5) * 0.002;
+      track.push([
+        from[0] + (to[0] - from[0]) * t + wiggle,
+        from[1] + (to[1] - from[1]) * t + wiggle
+      ]);
+    }
+  }
+
+  return track;
+}
+
+export interface MockActivity {
+  activity: DetailedActivity;
+  track: [number, number][];
+  streams: StreamSet;
+}
+
+const SPEEDS: Partial<Record<SportType, number>> = {
+  Ride: 5.2,
+  GravelRide: 4.6,
+  MountainBikeRide: 4.0,
+  VirtualRide: 8.0,
+  Hike: 1.2,
+  Walk: 1.3
+};
+
+function buildActivity(id: number, day: FixtureDay, startHour: number, random: () => number): MockActivity {
+  const track = buildTrack(day.waypoints, random);
+  const speed = SPEEDS[day.sportType] || 4;
+
+  // Per-point distance, altitude and time, from which everything else is derived
+  const distance: number[] = [];
+  const altitude: number[] = [];
+  const time: number[] = [];
+  let elevationGain = 0;
+
+  track.forEach((point, index) => {
+    const step = index === 0 ? 0 : haversineDistance(track[index - 1], point);
+    distance.push((distance[index - 1] || 0) + step);
+    time.push(Math.round((time[index - 1] || 0) + step / (speed * (0.8 + random() * 0.4))));
+
+    const elevation = 60 + 45 * Math.sin(distance[index] / 7000) + 20 * Math.sin(distance[index] / 1300) + random() * 2;
+    altitude.push(Math.round(elevation * 10) / 10);
+
+    if (index > 0 && altitude[index] > altitude[index - 1]) {
+      elevationGain += altitude[index] - altitude[index - 1];
+    }
+  });
+
+  const totalDistance = track.length ? distance[distance.length - 1] : speed * 3600;
+  const movingTime = track.length ? time[time.length - 1] : 3600;
+  // Lunch, cafés and photo stops
+  const elapsedTime = Math.round(movingTime * (day.trainer ? 1 : 1.35));
+
+  const localStart = `${day.date}T${String(startHour).padStart(2, '0')}:30:00Z`;
+  const startDate = new Date(new Date(localStart).getTime() - day.utcOffset * 3600 * 1000).toISOString().replace('.000', '');
+
+  // Strava's summary polyline is a simplified version of the full track
+  const summaryTrack = track.filter((_, index) => index % 10 === 0 || index === track.length - 1);
+  const isRide = day.sportType.includes('Ride');
+
+  const activity: DetailedActivity = {
+    id,
+    external_id: `mock-${id}.fit`,
+    upload_id: id * 10,
+    athlete: { id: MOCK_ATHLETE.id },
+    name: day.name,
+    description: '',
+    distance: Math.round(totalDistance * 10) / 10,
+    moving_time: movingTime,
+    elapsed_time: elapsedTime,
+    total_elevation_gain: Math.round(elevationGain * 10) / 10,
+    elev_high: altitude.length ? Math.max(...altitude) : undefined,
+    elev_low: altitude.length ? Math.min(...altitude) : undefined,
+    type: isRide && day.sportType !== 'VirtualRide' ? 'Ride' : day.sportType as DetailedActivity['type'],
+    sport_type: day.sportType,
+    start_date: startDate,
+    start_date_local: localStart,
+    timezone: `(GMT${day.utcOffset >= 0 ? '+' : '-'}0${Math.abs(day.utcOffset)}:00) ${day.timezone}`,
+    start_latlng: track.length ? track[0] : [],
+    end_latlng: track.length ? track[track.length - 1] : [],
+    map: {
+      id: `a${id}`,
+      polyline: encodePolyline(track),
+      summary_polyline: encodePolyline(summaryTrack)
+    },
+    trainer: !!day.trainer,
+    commute: !!day.commute,
+    manual: false,
+    private: false,
+    flagged: false,
+    average_speed: Math.round(totalDistance / movingTime * 1000) / 1000,
+    max_speed: Math.round(speed * 1.9 * 100) / 100,
+    achievement_count: 0,
+    kudos_count: Math.floor(random() * 20),
+    comment_count: 0,
+    athlete_count: 1,
+    photo_count: 0,
+    total_photo_count: 0,
+    has_kudoed: false
+  };
+
+  const velocity = time.map((seconds, index) => {
+    if (index === 0) return 0;
+    const dt = seconds - time[index - 1];
+    return dt > 0 ? Math.round((distance[index] - distance[index - 1]) / dt * 100) / 100 : 0;
+  });
+  const grade = altitude.map((elevation, index) => {
+    if (index === 0) return 0;
+    const dd = distance[index] - distance[index - 1];
+    return dd > 0 ? Math.round((elevation - altitude[index - 1]) / dd * 1000) / 10 : 0;
+  });
+
+  const stream = <T>(data: T[]) => ({
+    data,
+    series_type: 'distance' as const,
+    original_size: data.length,
+    resolution: 'high' as const
+  });
+
+  const streams: StreamSet = track.length ? {
+    latlng: stream(track),
+    altitude: stream(altitude),
+    time: stream(time),
+    distance: stream(distance.map(value => Math.round(value * 10) / 10)),
+    velocity_smooth: stream(velocity),
+    grade_smooth: stream(grade),
+    heartrate: stream(time.map(() => Math.round(115 + random() * 40))),
+    watts: stream(time.map(() => (isRide ? Math.round(120 + random() * 90) : 0))),
+    moving: stream(velocity.map(value => value > 0.5)),
+  } : {};
+
+  return { activity, track, streams };
+}
+
+/**
+ * Build every fixture activity, newest last
+ */
+export function buildFixtures(): MockActivity[] {
+  const random = seededRandom(42);
+  const fixtures: MockActivity[] = [];
+  let id = 9000000000;
+
+  // Weekday commutes through 2024 across London
+  const home: [number, number] = [51.4613, -0.1156];
+  const office: [number, number] = [51.5226, -0.0830];
+  for (let date = new Date('2024-01-02T00:00:00Z'); date < new Date('2025-02-28T00:00:00Z'); date.setUTCDate(date.getUTCDate() + 1)) {
+    const weekday = date.getUTCDay();
+    if (weekday === 0 || weekday === 6) continue;
+
+    const day = date.toISOString().slice(0, 10);
+    fixtures.push(buildActivity(id++, {
+      date: day, name: 'Morning Commute', sportType: 'Ride', timezone: 'Europe/London', utcOffset: 0,
+      waypoints: [home, [51.4950, -0.1000], office], commute: true
+    }, 7, random));
+
+    // A lunchtime run on Wednesdays
+    if (weekday === 3) {
+      fixtures.push(buildActivity(id++, {
+        date: day, name: 'Lunch Run', sportType: 'Run', timezone: 'Europe/London', utcOffset: 0,
+        waypoints: [office, [51.5300, -0.0700], office]
+      }, 12, random));
+    }
+  }
+
+  JOURNEY_DAYS.forEach(day => {
+    fixtures.push(buildActivity(id++, day, 8, random));
+  });
+
+  return fixtures;
+}
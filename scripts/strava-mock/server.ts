@@ -0,0 +1,261 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { randomBytes } from 'crypto';
+import { StreamKeys } from '@/lib/strava-streams';
+import { toSummaryActivity } from '@/lib/strava-client';
+import { MOCK_ATHLETE, buildFixtures } from './fixtures';
+
+/**
+ * Local stand-in for the Strava API and OAuth endpoints
+ *
+ *   npm run strava:mock
+ *   STRAVA_API_URL=http://localhost:4010/api/v3 STRAVA_OAUTH_URL=http://localhost:4010/oauth npm run dev
+ *
+ * Access tokens expire after MOCK_TOKEN_TTL seconds (default 1 hour) and are then
+ * answered with 401, refresh tokens rotate on every refresh, and requests beyond
+ * MOCK_RATE_LIMIT ("15-minute,daily", default Strava's read limit) get a 429.
+ */
+
+const PORT = Number(process.env.MOCK_STRAVA_PORT || 4010);
+const TOKEN_TTL_SECONDS = Number(process.env.MOCK_TOKEN_TTL || 3600);
+const [SHORT_LIMIT, DAILY_LIMIT] = (process.env.MOCK_RATE_LIMIT || '100,1000').split(',').map(Number);
+const SHORT_WINDOW_MS = 15 * 60 * 1000;
+
+const fixtures = buildFixtures();
+const activitiesById = new Map(fixtures.map(fixture => [fixture.activity.id!, fixture]));
+
+// Issued tokens: access token -> expiry (epoch seconds), and the current refresh tokens
+const accessTokens = new Map<string, number>();
+const refreshTokens = new Set<string>(['mock-refresh-token']);
+
+const usage = { short: 0, daily: 0, shortWindow: 0, day: '' };
+
+function send(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Strava's error body, matching the generated Fault model
+ */
+function fault(message: string, resource: string, field: string, code: string) {
+  return { message, errors: [{ resource, field, code }] };
+}
+
+async function readBody(request: IncomingMessage): Promise<Record<string, string>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw) return {};
+
+  if ((request.headers['content-type'] || '').includes('application/json')) {
+    return JSON.parse(raw);
+  }
+
+  return Object.fromEntries(new URLSearchParams(raw));
+}
+
+function issueTokens(includeAthlete: boolean) {
+  const accessToken = `mock-access-${randomBytes(8).toString('hex')}`;
+  const refreshToken = `mock-refresh-${randomBytes(8).toString('hex')}`;
+  const expiresAt = Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS;
+
+  accessTokens.set(accessToken, expiresAt);
+  refreshTokens.add(refreshToken);
+
+  return {
+    token_type: 'Bearer',
+    access_token: accessToken,
+    refresh_token: refreshToken,
+    expires_at: expiresAt,
+    expires_in: TOKEN_TTL_SECONDS,
+    ...(includeAthlete ? { athlete: MOCK_ATHLETE } : {})
+  };
+}
+
+/**
+ * Count a request against the rate limit and return the headers to send
+ */
+function spendRateLimit(): { limited: boolean; headers: Record<string, string> } {
+  const now = Date.now();
+  const window = Math.floor(now / SHORT_WINDOW_MS);
+  const day = new Date(now).toISOString().slice(0, 10);
+
+  if (window !== usage.shortWindow) {
+    usage.shortWindow = window;
+    usage.short = 0;
+  }
+  if (day !== usage.day) {
+    usage.day = day;
+    usage.daily = 0;
+  }
+
+  const limited = usage.short >= SHORT_LIMIT || usage.daily >= DAILY_LIMIT;
+  if (!limited) {
+    usage.short++;
+    usage.daily++;
+  }
+
+  const limit = `${SHORT_LIMIT},${DAILY_LIMIT}`;
+  const used = `${usage.short},${usage.daily}`;
+
+  return {
+    limited,
+    headers: {
+      'X-RateLimit-Limit': limit,
+      'X-RateLimit-Usage': used,
+      'X-ReadRateLimit-Limit': limit,
+      'X-ReadRateLimit-Usage': used
+    }
+  };
+}
+
+async function handleOAuth(request: IncomingMessage, response: ServerResponse, url: URL) {
+  // The "consent screen" approves immediately and bounces back to the site
+  if (url.pathname === '/oauth/authorize') {
+    const redirect = new URL(url.searchParams.get('redirect_uri') || 'http://localhost:3000/api/strava/callback');
+    redirect.searchParams.set('code', `mock-code-${randomBytes(4).toString('hex')}`);
+    redirect.searchParams.set('state', url.searchParams.get('state') || '');
+    redirect.searchParams.set('scope', url.searchParams.get('scope') || 'read');
+    response.writeHead(302, { Location: redirect.toString() });
+    response.end();
+    return;
+  }
+
+  if (url.pathname === '/oauth/token' && request.method === 'POST') {
+    const body = await readBody(request);
+
+    if (body.grant_type === 'authorization_code' && body.code) {
+      return send(response, 200, issueTokens(true));
+    }
+
+    if (body.grant_type === 'refresh_token' && refreshTokens.has(body.refresh_token)) {
+      // Strava rotates refresh tokens; the old one stops working
+      refreshTokens.delete(body.refresh_token);
+      return send(response, 200, issueTokens(false));
+    }
+
+    return send(response, 400, fault('Bad Request', 'RefreshToken', 'refresh_token', 'invalid'));
+  }
+
+  if (url.pathname === '/oauth/deauthorize' && request.method === 'POST') {
+    const token = url.searchParams.get('access_token') || (await readBody(request)).access_token;
+    accessTokens.delete(token);
+    return send(response, 200, { access_token: token });
+  }
+
+  send(response, 404, fault('Resource Not Found', 'Path', url.pathname, 'invalid'));
+}
+
+function listActivities(url: URL) {
+  const before = url.searchParams.has('before') ? Number(url.searchParams.get('before')) : Infinity;
+  const after = url.searchParams.has('after') ? Number(url.searchParams.get('after')) : -Infinity;
+  const page = Math.max(1, Number(url.searchParams.get('page') || 1));
+  const perPage = Math.min(200, Math.max(1, Number(url.searchParams.get('per_page') || 30)));
+
+  const matching = fixtures
+    .map(fixture => fixture.activity)
+    .filter(activity => {
+      const start = new Date(activity.start_date!).getTime() / 1000;
+      return start > after && start < before;
+    });
+
+  // Like Strava: newest first, unless only `after` is given
+  if (!url.searchParams.has('after') || url.searchParams.has('before')) {
+    matching.reverse();
+  }
+
+  return matching
+    .slice((page - 1) * perPage, page * perPage)
+    .map(activity => {
+      const summary = toSummaryActivity(activity);
+      const { polyline, ...map } = summary.map || {};
+      return { ...summary, description: undefined, map };
+    });
+}
+
+async function handleApi(request: IncomingMessage, response: ServerResponse, url: URL) {
+  const token = (request.headers.authorization || '').replace(/^Bearer /, '');
+  const expiresAt = accessTokens.get(token);
+
+  if (!expiresAt || expiresAt <= Date.now() / 1000) {
+    return send(response, 401, fault('Authorization Error', 'Athlete', 'access_token', 'invalid'));
+  }
+
+  const rateLimit = spendRateLimit();
+  if (rateLimit.limited) {
+    return send(response, 429, fault('Rate Limit Exceeded', 'Application', 'rate limit', 'exceeded'), rateLimit.headers);
+  }
+
+  const reply = (status: number, body: unknown) => send(response, status, body, rateLimit.headers);
+  const path = url.pathname.replace(/^\/api\/v3/, '');
+  let match: RegExpMatchArray | null;
+
+  if (path === '/athlete') {
+    return reply(200, MOCK_ATHLETE);
+  }
+
+  if (path === '/athlete/activities') {
+    return reply(200, listActivities(url));
+  }
+
+  if ((match = path.match(/^\/athletes\/(\d+)\/stats$/))) {
+    const rides = fixtures.filter(fixture => fixture.activity.type === 'Ride').map(fixture => fixture.activity);
+    const totals = {
+      count: rides.length,
+      distance: rides.reduce((total, activity) => total + (activity.distance || 0), 0),
+      moving_time: rides.reduce((total, activity) => total + (activity.moving_time || 0), 0),
+      elapsed_time: rides.reduce((total, activity) => total + (activity.elapsed_time || 0), 0),
+      elevation_gain: rides.reduce((total, activity) => total + (activity.total_elevation_gain || 0), 0),
+      achievement_count: 0
+    };
+    return reply(200, { all_ride_totals: totals, ytd_ride_totals: totals, recent_ride_totals: totals });
+  }
+
+  if ((match = path.match(/^\/activities\/(\d+)(\/streams|\/comments)?$/))) {
+    const fixture = activitiesById.get(Number(match[1]));
+    if (!fixture) {
+      return reply(404, fault('Resource Not Found', 'Activity', 'id', 'not found'));
+    }
+
+    if (match[2] === '/comments') {
+      return reply(200, []);
+    }
+
+    if (match[2] === '/streams') {
+      const keys = (url.searchParams.get('keys') || 'latlng').split(',') as StreamKeys[];
+      const streams = Object.fromEntries(
+        Object.entries(fixture.streams).filter(([key]) => keys.includes(key as StreamKeys) || key === 'distance')
+      );
+      return reply(200, streams);
+    }
+
+    if (request.method === 'PUT') {
+      const body = await readBody(request);
+      Object.assign(fixture.activity, body);
+    }
+
+    return reply(200, fixture.activity);
+  }
+
+  reply(404, fault('Resource Not Found', 'Path', url.pathname, 'invalid'));
+}
+
+const server = createServer((request, response) => {
+  const url = new URL(request.url || '/', `http://localhost:${PORT}`);
+  const handler = url.pathname.startsWith('/oauth/') ? handleOAuth : handleApi;
+
+  handler(request, response, url).catch(error => {
+    console.error(error);
+    send(response, 500, fault('Internal Server Error', 'Server', 'mock', 'error'));
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Strava listening on http://localhost:${PORT} with ${fixtures.length} activities`);
+  console.log(`  STRAVA_API_URL=http://localhost:${PORT}/api/v3`);
+  console.log(`  STRAVA_OAUTH_URL=http://localhost:${PORT}/oauth`);
+  console.log('  STRAVA_REFRESH_TOKEN=mock-refresh-token');
+});
@@ -1,78 +1,185 @@
 'use server';
 
-import { SummaryActivity } from '@/services/strava/api';
-import { StravaClient } from '@/lib/strava-client';
+import { StreamSet } from '@/lib/strava-streams';
+import { ActivitySource, mergeSourceActivities } from '@/lib/activity-source';
+import { StravaActivitySource } from '@/lib/strava-source';
+import { FileActivitySource } from '@/lib/file-source';
+import { JourneyDataStatus, StravaError, toStravaError } from '@/lib/strava-errors';
+import { matchesActivityFilter } from '@/lib/activity-filter';
+import { getJourneyFilter, getSyncStart, isActivityInJourney } from '@/lib/journeys';
+import { Journey } from '@/interfaces/journey';
+import { ActivityOverrides, OverriddenActivity, applyActivityOverrides, pickOverrides } from '@/lib/activity-overrides';
+import { loadActivityOverrides } from '@/lib/override-store';
+import { PrivacyZone, applyPrivacy, isInPrivacyZone, loadPrivacySettings } from '@/lib/privacy';
+import { PlannedRoute, comparePlannedRoute, loadPlannedRoute } from '@/lib/planned-route';
+import { TransitGap, findTransitGaps, loadTransitOverrides } from '@/lib/transit-gaps';
+import { CountrySummary, summarizeCountries } from '@/lib/countries';
+import { ActivityPlacesById, nameGenericActivities } from '@/lib/activity-places';
+import { getActivityPlaces } from '@/lib/reverse-geocode';
+import { activityTimestamp } from '@/lib/activity-store';
+import { decodePolyline } from '@/lib/polyline';
 
 /**
- * Gets journey activities from Strava using the refresh token flow
- * @param startDate The date from which to fetch activities, in ISO format
+ * The activity sources named in ACTIVITY_SOURCES, in priority order for de-duplication
  */
-export async function getJourneyActivities(startDate: string = '2023-01-01T00:00:00Z') {
+function getActivitySources(): ActivitySource[] {
+  const names = (process.env.ACTIVITY_SOURCES || 'strava,files').split(',').map(name => name.trim());
+
+  return names.flatMap<ActivitySource>(name => {
+    switch (name) {
+      case 'strava':
+        return [new StravaActivitySource()];
+      case 'files':
+        return [new FileActivitySource()];
+      default:
+        console.warn(`Ignoring unknown activity source "${name}"`);
+        return [];
+    }
+  });
+}
+
+/**
+ * Gets a journey's activities from every activity source, syncing Strava first when it is stale
+ * If Strava can't be reached the last good copy in the store is served, and `status` says so
+ * @param journey The trip whose dates and filter select the activities
+ */
+export async function getJourneyActivities(journey: Journey): Promise<{
+  activities: OverriddenActivity[];
+  streams: Record<number, StreamSet>;
+  overrides: ActivityOverrides;
+  startDate: string;
+  status: JourneyDataStatus;
+  plannedRoute: PlannedRoute | null;
+  transitGaps: TransitGap[];
+  countries: CountrySummary;
+  places: ActivityPlacesById;
+}> {
+  const startDate = journey.startDate;
+  // The store is shared by every journey, so keep it complete from the earliest start
+  const after = getSyncStart();
+  const sources = getActivitySources();
+  let syncError: StravaError | undefined;
+
+  for (const source of sources) {
+    try {
+      await source.refresh?.(after);
+    } catch (error) {
+      syncError = toStravaError(error);
+
+      if (syncError.kind === 'rate_limit') {
+        // Out of budget - serve what is already stored and try again after the reset
+        console.warn(`Skipping ${source.name} sync: ${syncError.message}`);
+      } else {
+        console.error(`Error syncing ${source.name} activities (${syncError.kind}):`, syncError);
+      }
+    }
+  }
+
   try {
-    // Create a new Strava client - this will use environment variables
-    const stravaClient = new StravaClient();
-    
-    // Convert start date to epoch timestamp (required by Strava API)
-    const after = Math.floor(new Date(startDate).getTime() / 1000);
-    
-    // Fetch all activities after the start date, handling pagination automatically
-    const activities = await stravaClient.getAllActivitiesAfter(after);
-    
-    console.log(`Fetched ${activities.length} activities from Strava API`);
-    
+    const lastSyncAt = (await Promise.all(sources.map(source => source.lastRefreshedAt?.() ?? null)))
+      .find(refreshedAt => refreshedAt) ?? null;
+    const filter = getJourneyFilter(journey);
+    const overrides = await loadActivityOverrides();
+    const merged = mergeSourceActivities(await Promise.all(sources.map(source => source.getActivities(after))));
+
+    // Overrides go first so hidden activities never leave the server and reclassified ones meet the filter
+    const activities = applyActivityOverrides(merged, overrides)
+      .filter(activity => isActivityInJourney(activity, journey) && matchesActivityFilter(activity, filter));
+
+    // Nothing has ever been synced or read, so there is no last good copy to fall back to
+    if (syncError && !lastSyncAt && merged.length === 0) {
+      return unavailable(startDate, syncError);
+    }
+
+    console.log(`Loaded ${activities.length} activities from ${sources.map(source => source.name).join(', ')}`);
+
+    const streams: Record<number, StreamSet> = activities.length > 0
+      ? Object.assign({}, ...await Promise.all(sources.map(source => source.getStreams(activities))))
+      : {};
+
+    // Trim routes near private places before anything is sent to the browser
+    const privacy = await loadPrivacySettings();
+    const published = applyPrivacy(activities, streams, privacy);
+    const plannedRoute = await comparePublishedRoute(journey, published, privacy.zones);
+    const transitGaps = findTransitGaps(published.activities, await loadTransitOverrides());
+    const countries = summarizeCountries(published.activities, published.streams);
+
+    // Town names come from the published points, so they never say more than the map does
+    const places = getActivityPlaces(published.activities);
+
     return {
-      activities,
-      startDate
+      activities: nameGenericActivities(published.activities, places),
+      streams: published.streams,
+      overrides: pickOverrides(published.activities, overrides),
+      startDate,
+      status: {
+        state: syncError ? 'stale' : 'live',
+        lastSyncAt,
+        error: syncError?.kind
+      },
+      plannedRoute,
+      transitGaps,
+      countries,
+      places
     };
   } catch (error) {
-    console.error('Error fetching Strava activities:', error);
-    // Fall back to mock data if the API fails
-    return getMockActivities(startDate);
+    console.error('Error reading activities:', error);
+    return unavailable(startDate, toStravaError(error));
   }
 }
 
 /**
- * Fallback function to get mock data if API fails
+ * The journey's planned route (minus any privacy zones) compared with the published routes
+ * A missing or unreadable route file only loses the plan, not the whole map
  */
-function getMockActivities(startDate: string) {
-  console.log('Using mock Strava data');
-  
-  // Mock data for initial testing
-  const mockActivities: SummaryActivity[] = [
-    {
-      id: 1,
-      name: 'Morning Run',
-      start_date: '2023-01-05T08:00:00Z',
-      distance: 5000,
-      type: 'Run',
-      map: {
-        summary_polyline: 'mock_polyline_data'
-      }
-    },
-    {
-      id: 2,
-      name: 'Evening Ride',
-      start_date: '2023-01-07T18:00:00Z',
-      distance: 15000,
-      type: 'Ride',
-      map: {
-        summary_polyline: 'mock_polyline_data'
-      }
-    },
-    {
-      id: 3,
-      name: 'Weekend Hike',
-      start_date: '2023-01-14T10:00:00Z',
-      distance: 8000,
-      type: 'Hike',
-      map: {
-        summary_polyline: 'mock_polyline_data'
-      }
-    }
-  ];
-  
+async function comparePublishedRoute(
+  journey: Journey,
+  published: { activities: OverriddenActivity[]; streams: Record<number, StreamSet> },
+  zones: PrivacyZone[]
+): Promise<PlannedRoute | null> {
+  let plan: [number, number][] | undefined;
+  try {
+    plan = (await loadPlannedRoute(journey))?.filter(point => !isInPrivacyZone(point, zones));
+  } catch (error) {
+    console.error(`Error reading the planned route ${journey.plannedRoute}:`, error);
+    return null;
+  }
+
+  if (!plan || plan.length < 2) {
+    return null;
+  }
+
+  const activities = [...published.activities].sort((a, b) => activityTimestamp(a) - activityTimestamp(b));
+  const ridden = activities.map(activity =>
+    (published.streams[activity.id!]?.latlng?.data as [number, number][] | undefined) ||
+    decodePolyline(activity.map?.summary_polyline || '')
+  );
+  const latest = activities[activities.length - 1]?.end_latlng;
+
+  return comparePlannedRoute(
+    plan,
+    ridden,
+    latest?.length === 2 ? latest as [number, number] : undefined
+  );
+}
+
+/**
+ * Result used when there is no data to show, so the map can say it is unavailable
+ */
+function unavailable(startDate: string, error: StravaError) {
   return {
-    activities: mockActivities,
-    startDate
+    activities: [],
+    streams: {},
+    overrides: {},
+    startDate,
+    status: {
+      state: 'unavailable',
+      lastSyncAt: null,
+      error: error.kind
+    } satisfies JourneyDataStatus,
+    plannedRoute: null,
+    transitGaps: [],
+    countries: { countries: [], crossings: [] },
+    places: {}
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,30 @@
+import { CountryVisit } from "@/lib/countries";
+
+type Props = {
+  countries: CountryVisit[];
+};
+
+/**
+ * The countries ridden through so far, in order, e.g. "United Kingdom → France"
+ */
+export function CountriesStrip({ countries }: Props) {
+  if (countries.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="-mt-8 mb-12 md:mb-16">
+      <ol className="flex flex-wrap items-center gap-x-2 gap-y-1 text-lg">
+        {countries.map((country, index) => (
+          <li key={country.name} className="flex items-center">
+            {index > 0 && <span className="mr-2 text-gray-400" aria-hidden>→</span>}
+            <span className="font-semibold">{country.name}</span>
+            <span className="ml-1 text-sm text-gray-600 dark:text-gray-400">
+              ({country.days} {country.days === 1 ? "day" : "days"})
+            </span>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
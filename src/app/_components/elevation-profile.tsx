@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useState, type PointerEvent } from "react";
+import { type ElevationProfile, type ElevationSample, sampleAt, sectionAt } from "@/lib/elevation-profile";
+import { useUnits } from "./unit-switcher";
+
+type Props = {
+  profile: ElevationProfile;
+  title: string;
+  // Called with the hovered sample (to place a marker on the map), and null when the pointer leaves
+  onHover?: (sample: ElevationSample | null) => void;
+};
+
+// Chart size in SVG units; it is stretched to the container's width
+const WIDTH = 1000;
+const HEIGHT = 160;
+const PADDING = 8;
+
+/**
+ * Elevation against distance, as an SVG area chart
+ * Stretches without streams are drawn as a band between their lowest and highest points
+ */
+export function ElevationProfileChart({ profile, title, onHover }: Props) {
+  const [hoverDistance, setHoverDistance] = useState<number | null>(null);
+  const { distance: formatDistance, elevation: formatElevation } = useUnits();
+
+  // Take the map marker away with the chart
+  useEffect(() => () => onHover?.(null), [onHover]);
+
+  if (profile.distance <= 0) {
+    return null;
+  }
+
+  const range = profile.max - profile.min || 1;
+  const x = (distance: number) => (distance / profile.distance) * WIDTH;
+  const y = (elevation: number) => HEIGHT - PADDING - ((elevation - profile.min) / range) * (HEIGHT - 2 * PADDING);
+
+  const hoverSample = hoverDistance !== null ? sampleAt(profile, hoverDistance) : null;
+  const hoverSection = hoverDistance !== null ? sectionAt(profile, hoverDistance) : undefined;
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (event.clientX - bounds.left) / bounds.width));
+    const distance = fraction * profile.distance;
+
+    setHoverDistance(distance);
+    onHover?.(sampleAt(profile, distance));
+  };
+
+  const handlePointerLeave = () => {
+    setHoverDistance(null);
+    onHover?.(null);
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="mb-2 flex flex-wrap items-baseline justify-between gap-2">
+        <h3 className="text-lg font-semibold">{title}</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {formatElevation(profile.gain)} up · highest {formatElevation(profile.max)} · lowest {formatElevation(profile.min)}
+        </p>
+      </div>
+      <div className="relative text-purple-600 dark:text-purple-400">
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="none"
+          className="h-40 w-full touch-none rounded-lg bg-white dark:bg-slate-800"
+          onPointerMove={handlePointerMove}
+          onPointerLeave={handlePointerLeave}
+          role="img"
+          aria-label={`${title}: ${formatElevation(profile.min)} to ${formatElevation(profile.max)} over ${formatDistance(profile.distance)}`}
+        >
+          {profile.sections.map((section, index) =>
+            section.samples.length > 0 ? (
+              <g key={index}>
+                <path
+                  d={`M ${x(section.samples[0].distance)} ${HEIGHT} ${section.samples
+                    .map((sample) => `L ${x(sample.distance)} ${y(sample.elevation)}`)
+                    .join(" ")} L ${x(section.samples[section.samples.length - 1].distance)} ${HEIGHT} Z`}
+                  fill="currentColor"
+                  fillOpacity={0.2}
+                />
+                <path
+                  d={section.samples
+                    .map((sample, i) => `${i === 0 ? "M" : "L"} ${x(sample.distance)} ${y(sample.elevation)}`)
+                    .join(" ")}
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              </g>
+            ) : (
+              <rect
+                key={index}
+                x={x(section.start)}
+                y={y(section.high!)}
+                width={x(section.end) - x(section.start)}
+                height={Math.max(1, y(section.low!) - y(section.high!))}
+                fill="currentColor"
+                fillOpacity={0.1}
+              />
+            ),
+          )}
+          {hoverDistance !== null && (
+            <line
+              x1={x(hoverDistance)}
+              x2={x(hoverDistance)}
+              y1={0}
+              y2={HEIGHT}
+              stroke="currentColor"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+        {hoverDistance !== null && (hoverSample || hoverSection) && (
+          <div
+            className="pointer-events-none absolute top-1 -translate-x-1/2 whitespace-nowrap rounded bg-slate-900/80 px-2 py-1 text-xs text-white"
+            style={{ left: `${Math.min(90, Math.max(10, (hoverDistance / profile.distance) * 100))}%` }}
+          >
+            {formatDistance(hoverDistance)} ·{" "}
+            {hoverSample
+              ? formatElevation(hoverSample.elevation)
+              : `${formatElevation(hoverSection!.low!)}–${formatElevation(hoverSection!.high!)}`}
+          </div>
+        )}
+      </div>
+      <div className="mt-1 flex justify-between text-xs text-gray-600 dark:text-gray-400">
+        <span>{formatDistance(0, 0)}</span>
+        <span>{formatDistance(profile.distance)}</span>
+      </div>
+    </div>
+  );
+}
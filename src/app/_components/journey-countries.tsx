@@ -0,0 +1,53 @@
+import { CountrySummary } from "@/lib/countries";
+import DateFormatter from "./date-formatter";
+import { Measurement } from "./measurement";
+
+type Props = {
+  summary: CountrySummary;
+};
+
+export function JourneyCountries({ summary }: Props) {
+  if (summary.countries.length === 0) {
+    return null;
+  }
+
+  // The first "crossing" is just where the journey began
+  const borderCrossings = summary.crossings.filter((crossing) => crossing.from !== null);
+
+  return (
+    <section className="mb-16 md:mb-20">
+      <h2 className="mb-4 text-3xl md:text-4xl font-bold tracking-tighter leading-tight">
+        Countries
+      </h2>
+      <ol className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {summary.countries.map((country) => (
+          <li key={country.name} className="bg-white dark:bg-slate-800 rounded-lg p-4 shadow-sm">
+            <h3 className="text-lg font-semibold">{country.name}</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              <DateFormatter dateString={country.firstDate} />
+              {country.lastDate !== country.firstDate && (
+                <>
+                  {" – "}
+                  <DateFormatter dateString={country.lastDate} />
+                </>
+              )}
+            </p>
+            <p className="mt-2">
+              <Measurement kind="distance" value={country.distance} /> · {country.days}{" "}
+              {country.days === 1 ? "day" : "days"}
+            </p>
+          </li>
+        ))}
+      </ol>
+      {borderCrossings.length > 0 && (
+        <ul className="mt-4 text-sm text-gray-700 dark:text-gray-300">
+          {borderCrossings.map((crossing) => (
+            <li key={`${crossing.date}-${crossing.to}`}>
+              <DateFormatter dateString={crossing.date} />: {crossing.from} → {crossing.to}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
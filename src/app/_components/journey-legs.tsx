@@ -0,0 +1,59 @@
+import { LegSummary } from "@/lib/journeys";
+import { ROUTE_EXPORT_FORMATS, RouteExportFormat, routeExportUrl } from "@/lib/route-export";
+import DateFormatter from "./date-formatter";
+import { Measurement } from "./measurement";
+
+type Props = {
+  legs: LegSummary[];
+  // Journey slug, for the per-leg route downloads
+  slug: string;
+};
+
+export function JourneyLegs({ legs, slug }: Props) {
+  if (legs.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="mb-16 md:mb-20">
+      <h2 className="mb-4 text-3xl md:text-4xl font-bold tracking-tighter leading-tight">
+        Legs
+      </h2>
+      <ol className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {legs.map(({ leg, activities, distance, elevationGain }, index) => (
+          <li key={leg.name} className="bg-white dark:bg-slate-800 rounded-lg p-4 shadow-sm">
+            <h3 className="text-lg font-semibold">{leg.name}</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              <DateFormatter dateString={leg.startDate} />
+              {leg.endDate && (
+                <>
+                  {" – "}
+                  <DateFormatter dateString={leg.endDate} />
+                </>
+              )}
+            </p>
+            <p className="mt-2">
+              <Measurement kind="distance" value={distance} /> ·{" "}
+              <Measurement kind="elevation" value={elevationGain} /> up · {activities}{" "}
+              {activities === 1 ? "activity" : "activities"}
+            </p>
+            {activities > 0 && (
+              <p className="mt-2 text-sm">
+                {(Object.keys(ROUTE_EXPORT_FORMATS) as RouteExportFormat[]).map((format) => (
+                  <a
+                    key={format}
+                    href={routeExportUrl(slug, format, { leg: index + 1 })}
+                    download
+                    className="mr-3 underline hover:text-blue-600 dark:hover:text-blue-400"
+                  >
+                    {ROUTE_EXPORT_FORMATS[format].label}
+                  </a>
+                ))}
+              </p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
@@ -1,20 +1,99 @@
 "use client";
 
 import { useState, useEffect, useMemo, useCallback } from 'react';
-import Map, { Source, Layer, NavigationControl, Marker, Popup, ViewState, ViewStateChangeEvent, LineLayerSpecification } from 'react-map-gl/mapbox';
+import Link from 'next/link';
+import Map, { Source, Layer, NavigationControl, Marker, Popup, ViewState, ViewStateChangeEvent, LineLayerSpecification, SymbolLayerSpecification, CircleLayerSpecification } from 'react-map-gl/mapbox';
 import { SummaryActivity } from '@/services/strava/api';
+import { StreamSet } from '@/lib/strava-streams';
 import { processActivities, calculateBounds } from '@/lib/activity-processor';
+import { getSportType } from '@/lib/activity-filter';
+import { ActivityOverrides, OverriddenActivity, applyActivityOverrides } from '@/lib/activity-overrides';
+import { isStravaActivity } from '@/lib/activity-source';
+import { ROUTE_EXPORT_FORMATS, type RouteExportFormat, type RouteExportScope, routeExportUrl } from '@/lib/route-export';
+import { type JourneyDataStatus, type StravaErrorKind } from '@/lib/strava-errors';
+import { type PlannedRoute } from '@/lib/planned-route';
+import { type TransitGap, type TransportMode } from '@/lib/transit-gaps';
+import { type OvernightStop, summarizeJourneyDays } from '@/lib/journey-days';
+import { type ActivityPlacesById, formatRouteLabel } from '@/lib/activity-places';
+import { type ElevationSample, buildElevationProfile } from '@/lib/elevation-profile';
+import { countSportTypes, summarizeTotals } from '@/lib/journey-stats';
+import { ElevationProfileChart } from './elevation-profile';
+import { useUnits } from './unit-switcher';
 
 interface JourneyMapProps {
   activities: SummaryActivity[];
+  // Optional activity streams keyed by activity id, used for full-resolution routes
+  streams?: Record<number, StreamSet>;
   startDate: string;
+  // Optional per-activity overrides (hide, rename, reclassify, exclude from stats)
+  overrides?: ActivityOverrides;
+  // Heading above the map, defaults to "My Journey Map"
+  title?: string;
+  // Optional page the heading links to, e.g. the journey's own page
+  href?: string;
+  // Whether the data is current, a cached copy after a failed sync, or missing
+  status?: JourneyDataStatus;
+  // Journey slug; when set, the route can be downloaded as GPX, KML or GeoJSON
+  slug?: string;
+  // The planned route and progress along it, drawn dashed under the ridden routes
+  plannedRoute?: PlannedRoute | null;
+  // Train, ferry and flight jumps between activities, drawn as dashed connectors
+  transitGaps?: TransitGap[];
+  // Start and end towns per activity id, for "From A to B" labels
+  places?: ActivityPlacesById;
 }
 
-// Helper function to format distance
-function formatDistance(meters: number | undefined, unit: string | undefined): string {
-  if (!meters) return '0 m';
-  if (unit === "km") return (meters / 1000).toFixed(1) + ' km';
-  return meters ? meters + ' m' : '0 m';
+// Route colours per sport type, as [light, dark] mode pairs
+const SPORT_TYPE_COLORS: Record<string, [string, string]> = {
+  Ride: ['#e03131', '#ff6b6b'],
+  GravelRide: ['#c2410c', '#fb923c'],
+  MountainBikeRide: ['#2f9e44', '#69db7c'],
+  EBikeRide: ['#1971c2', '#74c0fc'],
+  EMountainBikeRide: ['#0c8599', '#66d9e8'],
+  Hike: ['#7048e8', '#b197fc'],
+};
+const DEFAULT_ROUTE_COLOR: [string, string] = ['#f2711c', '#ff9f40'];
+
+// Planned route and off-route highlight colours, as [light, dark] mode pairs
+const PLANNED_ROUTE_COLOR: [string, string] = ['#495057', '#ced4da'];
+const OFF_ROUTE_COLOR: [string, string] = ['#fab005', '#ffd43b'];
+const TRANSIT_COLOR: [string, string] = ['#1864ab', '#a5d8ff'];
+const OVERNIGHT_STOP_COLOR: [string, string] = ['#5f3dc4', '#d0bfff'];
+
+// Connector captions per transport mode
+const TRANSPORT_MODE_LABELS: Record<TransportMode, string> = {
+  ferry: 'Ferry',
+  train: 'Train',
+  bus: 'Bus',
+  car: 'Car',
+  flight: 'Flight',
+  transit: 'Transit',
+};
+
+// Helper function to get the route colour of a sport type
+function sportTypeColor(sportType: string, isDarkMode: boolean): string {
+  const [light, dark] = SPORT_TYPE_COLORS[sportType] || DEFAULT_ROUTE_COLOR;
+  return isDarkMode ? dark : light;
+}
+
+// Why the data shown may be out of date, phrased for readers
+const STALE_DATA_REASONS: Record<StravaErrorKind, string> = {
+  auth: 'the Strava connection needs attention',
+  rate_limit: 'Strava is rate limiting updates',
+  network: 'Strava could not be reached',
+  invalid_data: 'Strava returned unexpected data',
+};
+
+// Helper function to format a date and time
+function formatDateTime(dateString: string | null): string {
+  if (!dateString) return '';
+  return new Date(dateString).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
 }
 
 // Helper function to format date
@@ -27,6 +106,16 @@ function formatDate(dateString: string | undefined): string {
   });
 }
 
+// Helper function to format a calendar date (YYYY-MM-DD) without shifting it into the reader's timezone
+function formatCalendarDate(date: string): string {
+  return new Date(date).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC'
+  });
+}
+
 // Helper function to format time
 function formatTime(seconds: number | undefined): string {
   if (!seconds) return '0m';
@@ -40,7 +129,100 @@ function formatTime(seconds: number | undefined): string {
   return `${minutes}m`;
 }
 
-export function JourneyMap({ activities, startDate }: JourneyMapProps) {
+// Links to download the route, or part of it, in every export format
+function RouteDownloads({ slug, label, scope }: { slug: string; label: string; scope?: RouteExportScope }) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-gray-600 dark:text-gray-400">{label}</span>
+      {(Object.keys(ROUTE_EXPORT_FORMATS) as RouteExportFormat[]).map(format => (
+        <a
+          key={format}
+          href={routeExportUrl(slug, format, scope)}
+          download
+          className="bg-white dark:bg-slate-700 px-3 py-1 rounded shadow hover:bg-slate-100 dark:hover:bg-slate-600 transition-colors"
+        >
+          {ROUTE_EXPORT_FORMATS[format].label}
+        </a>
+      ))}
+    </div>
+  );
+}
+
+// Helper function to turn [lat, lng] paths into a GeoJSON line collection
+function toLineCollection(paths: [number, number][][]) {
+  return {
+    type: 'FeatureCollection' as const,
+    features: paths.map(path => ({
+      type: 'Feature' as const,
+      properties: {},
+      geometry: {
+        type: 'LineString' as const,
+        coordinates: path.map(([lat, lng]) => [lng, lat])
+      }
+    }))
+  };
+}
+
+export function JourneyMap({ activities: allActivities, streams, startDate, overrides, title = 'My Journey Map', href, status, slug, plannedRoute, transitGaps = [], places = {} }: JourneyMapProps) {
+  // Hidden activities never reach the map, stats or current location
+  const activities = useMemo(
+    () => applyActivityOverrides(allActivities, overrides || {}),
+    [allActivities, overrides]
+  );
+
+  const plannedRouteData = useMemo(
+    () => plannedRoute ? toLineCollection([plannedRoute.path]) : null,
+    [plannedRoute]
+  );
+  const offRouteData = useMemo(
+    () => plannedRoute?.offRoute.length ? toLineCollection(plannedRoute.offRoute) : null,
+    [plannedRoute]
+  );
+
+  // Where we slept and how many days were spent riding
+  const journeyDays = useMemo(
+    () => summarizeJourneyDays(activities, startDate, overrides || {}),
+    [activities, startDate, overrides]
+  );
+  const overnightStopData = useMemo(
+    () => journeyDays.stops.length > 0 ? {
+      type: 'FeatureCollection' as const,
+      features: journeyDays.stops.map((stop, index) => ({
+        type: 'Feature' as const,
+        properties: { index, nights: stop.nights },
+        geometry: {
+          type: 'Point' as const,
+          coordinates: [stop.location[1], stop.location[0]]
+        }
+      }))
+    } : null,
+    [journeyDays]
+  );
+  const [selectedStop, setSelectedStop] = useState<OvernightStop | null>(null);
+
+  // Elevation along the whole journey and along the selected activity; hovering either moves a marker on the map
+  const journeyProfile = useMemo(() => buildElevationProfile(activities, streams), [activities, streams]);
+  const [profileHover, setProfileHover] = useState<ElevationSample | null>(null);
+
+  // Connectors are kept apart from the activity routes, so they never count towards the ridden stats
+  const transitData = useMemo(
+    () => transitGaps.length > 0 ? {
+      type: 'FeatureCollection' as const,
+      features: transitGaps.map(gap => ({
+        type: 'Feature' as const,
+        properties: {
+          mode: gap.mode,
+          label: gap.label || TRANSPORT_MODE_LABELS[gap.mode]
+        },
+        geometry: {
+          type: 'LineString' as const,
+          coordinates: [[gap.from[1], gap.from[0]], [gap.to[1], gap.to[0]]]
+        }
+      }))
+    } : null,
+    [transitGaps]
+  );
+
   const [currentViewState, setCurrentViewState] = useState<ViewState>({
     longitude: 0,
     latitude: 30,
@@ -58,7 +240,7 @@ export function JourneyMap({ activities, startDate }: JourneyMapProps) {
   
   // State for activity hover and selection
   const [hoveredActivity, setHoveredActivity] = useState<SummaryActivity | null>(null);
-  const [selectedActivity, setSelectedActivity] = useState<SummaryActivity | null>(null);
+  const [selectedActivity, setSelectedActivity] = useState<OverriddenActivity | null>(null);
   const [popupInfo, setPopupInfo] = useState<{
     longitude: number;
     latitude: number;
@@ -72,13 +254,19 @@ export function JourneyMap({ activities, startDate }: JourneyMapProps) {
     activity: SummaryActivity;
   } | null>(null);
   
-  // Stats
-  const [stats, setStats] = useState({
-    totalDistance: 0,
-    totalElevationGain: 0,
-    totalActivities: 0,
-    activityTypes: {} as Record<string, number>
-  });
+  // Distances, elevations and speeds in the reader's units
+  const units = useUnits();
+
+  // Stats, leaving out activities excluded by an override (still drawn on the map)
+  const stats = useMemo(() => {
+    const totals = summarizeTotals(activities, overrides);
+    return {
+      totalDistance: totals.distance,
+      totalElevationGain: totals.elevationGain,
+      totalActivities: totals.activities,
+      activityTypes: countSportTypes(activities, overrides)
+    };
+  }, [activities, overrides]);
   
   // Auto fit bounds when map data changes
   const fitBounds = useCallback(() => {
@@ -164,38 +352,13 @@ export function JourneyMap({ activities, startDate }: JourneyMapProps) {
     return () => observer.disconnect();
   }, []);
   
-  // Process activities and calculate stats
+  // Process activities
   useEffect(() => {
     if (activities && activities.length) {
       // Process GeoJSON data
-      const processedData = processActivities(activities, startDate);
+      const processedData = processActivities(activities, startDate, streams, overrides);
       setJourneyData(processedData);
       
-      // Calculate statistics
-      let totalDistance = 0;
-      const activityTypes: Record<string, number> = {};
-      
-      activities.forEach(activity => {
-        if (activity.distance) {
-          totalDistance += activity.distance;
-        }
-
-        if (activity.total_elevation_gain) {
-          stats.totalElevationGain += activity.total_elevation_gain;
-        }
-        
-        if (activity.type) {
-          activityTypes[activity.type] = (activityTypes[activity.type] || 0) + 1;
-        }
-      });
-      
-      setStats({
-        totalDistance,
-        totalElevationGain: stats.totalElevationGain,
-        totalActivities: activities.length,
-        activityTypes
-      });
-      
       // Find current location marker
       findCurrentLocation();
       
@@ -204,7 +367,7 @@ export function JourneyMap({ activities, startDate }: JourneyMapProps) {
     }
     
     setIsLoading(false);
-  }, [activities, startDate, fitBounds, findCurrentLocation]);
+  }, [activities, streams, startDate, overrides, fitBounds, findCurrentLocation]);
   
   // Map style based on dark/light mode
   const mapStyle = isDarkMode 
@@ -220,20 +383,107 @@ export function JourneyMap({ activities, startDate }: JourneyMapProps) {
     paint: {
       'line-color': [
         'match',
-        ['get', 'type'],
-        'Ride', isDarkMode ? '#ff6b6b' : '#e03131',
-        isDarkMode ? '#ff9f40' : '#f2711c' // default color
+        ['get', 'sport_type'],
+        ...Object.keys(SPORT_TYPE_COLORS).flatMap(sportType => [sportType, sportTypeColor(sportType, isDarkMode)]),
+        sportTypeColor('', isDarkMode) // default color
       ],
       'line-width': 3,
       'line-opacity': 0.8
     }
   };
   
+  const plannedRouteLayer: LineLayerSpecification = {
+    id: 'planned-route',
+    type: 'line',
+    source: 'planned-route',
+    paint: {
+      'line-color': isDarkMode ? PLANNED_ROUTE_COLOR[1] : PLANNED_ROUTE_COLOR[0],
+      'line-width': 2,
+      'line-opacity': 0.7,
+      'line-dasharray': [2, 2]
+    }
+  };
+
+  const offRouteLayer: LineLayerSpecification = {
+    id: 'planned-route-off',
+    type: 'line',
+    source: 'planned-route-off',
+    paint: {
+      'line-color': isDarkMode ? OFF_ROUTE_COLOR[1] : OFF_ROUTE_COLOR[0],
+      'line-width': 6,
+      'line-opacity': 0.5
+    }
+  };
+
+  const transitLayer: LineLayerSpecification = {
+    id: 'transit-connectors',
+    type: 'line',
+    source: 'transit-connectors',
+    paint: {
+      'line-color': isDarkMode ? TRANSIT_COLOR[1] : TRANSIT_COLOR[0],
+      'line-width': 2,
+      'line-dasharray': [1, 2]
+    }
+  };
+
+  const transitLabelLayer: SymbolLayerSpecification = {
+    id: 'transit-labels',
+    type: 'symbol',
+    source: 'transit-connectors',
+    layout: {
+      'symbol-placement': 'line-center',
+      'text-field': ['get', 'label'],
+      'text-size': 12
+    },
+    paint: {
+      'text-color': isDarkMode ? TRANSIT_COLOR[1] : TRANSIT_COLOR[0],
+      'text-halo-color': isDarkMode ? '#1e293b' : '#ffffff',
+      'text-halo-width': 1.5
+    }
+  };
+
+  // Bigger circles for longer stays
+  const overnightStopLayer: CircleLayerSpecification = {
+    id: 'overnight-stops',
+    type: 'circle',
+    source: 'overnight-stops',
+    paint: {
+      'circle-radius': ['interpolate', ['linear'], ['get', 'nights'], 1, 5, 4, 9],
+      'circle-color': isDarkMode ? OVERNIGHT_STOP_COLOR[1] : OVERNIGHT_STOP_COLOR[0],
+      'circle-stroke-color': isDarkMode ? '#1e293b' : '#ffffff',
+      'circle-stroke-width': 2
+    }
+  };
+
+  // "From A to B" for the clicked and selected activities, when it adds something to the name
+  const routeLabel = (activity?: SummaryActivity | null) => {
+    const label = activity ? formatRouteLabel(places[String(activity.id)]) : null;
+    return label && label !== activity?.name ? label : null;
+  };
+  const popupLabel = routeLabel(popupInfo?.activity);
+  const selectedLabel = routeLabel(selectedActivity);
+
+  const selectedProfile = useMemo(
+    () => selectedActivity ? buildElevationProfile([selectedActivity], streams) : null,
+    [selectedActivity, streams]
+  );
+
+  // The plan sits under the ridden routes whenever they are on the map
+  const beforeRoutes = journeyData && journeyData.features.length > 0 ? 'journey-lines' : undefined;
+
   // Handle map click
   const handleMapClick = (event: any) => {
     // Get features at click point
     const features = event.features || [];
     
+    // Overnight stops sit on top of the routes, so they win the click
+    const stopFeature = features.find((feature: any) => feature.layer?.id === 'overnight-stops');
+    if (stopFeature) {
+      setSelectedStop(journeyDays.stops[stopFeature.properties.index] || null);
+      return;
+    }
+    setSelectedStop(null);
+
     if (features.length > 0) {
       // Find the activity that corresponds to the clicked feature
       const featureId = features[0].properties.id;
@@ -283,15 +533,27 @@ export function JourneyMap({ activities, startDate }: JourneyMapProps) {
   return (
     <section className="mb-16 md:mb-20">
       <h2 className="mb-4 text-4xl md:text-5xl font-bold tracking-tighter leading-tight">
-        My Journey Map
+        {href ? (
+          <Link href={href} className="hover:underline">
+            {title}
+          </Link>
+        ) : title}
       </h2>
       
+      {/* Cached data shown because the last Strava sync failed */}
+      {status?.state === 'stale' && (
+        <div className="mb-4 rounded-lg border border-amber-300 bg-amber-50 dark:border-amber-700 dark:bg-amber-900/40 px-4 py-2 text-sm">
+          {status.lastSyncAt ? <>Data as of {formatDateTime(status.lastSyncAt)}</> : 'Showing track files only'}
+          {status.error && <> &mdash; {STALE_DATA_REASONS[status.error]}</>}
+        </div>
+      )}
+
       {/* Stats summary */}
-      <div className="mb-6 grid grid-cols-1 sm:grid-cols-3 gap-4">
+      <div className={`mb-6 grid grid-cols-1 gap-4 ${plannedRoute?.progress ? 'sm:grid-cols-2 lg:grid-cols-4' : 'sm:grid-cols-3'}`}>
         <div className="bg-white dark:bg-slate-800 rounded-lg p-3 shadow-sm">
           <h3 className="text-lg font-semibold">Total Distance</h3>
           <p className="text-2xl font-bold text-blue-600 dark:text-blue-400">
-            {formatDistance(stats.totalDistance, 'km')}
+            {units.distance(stats.totalDistance)}
           </p>
         </div>
         <div className="bg-white dark:bg-slate-800 rounded-lg p-3 shadow-sm">
@@ -303,10 +565,82 @@ export function JourneyMap({ activities, startDate }: JourneyMapProps) {
         <div className="bg-white dark:bg-slate-800 rounded-lg p-3 shadow-sm">
           <h3 className="text-lg font-semibold">Total Elevation</h3>
           <p className="text-2xl font-bold text-purple-600 dark:text-purple-400">
-          {formatDistance(stats.totalElevationGain, undefined)}
+            {units.elevation(stats.totalElevationGain)}
           </p>
         </div>
+        {plannedRoute?.progress && (
+          <div className="bg-white dark:bg-slate-800 rounded-lg p-3 shadow-sm">
+            <h3 className="text-lg font-semibold">Progress</h3>
+            <p className="text-2xl font-bold text-amber-600 dark:text-amber-400">
+              {plannedRoute.progress.percent}%
+            </p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {units.distance(plannedRoute.progress.done)} done &middot; {units.distance(plannedRoute.progress.remaining)} to go
+            </p>
+          </div>
+        )}
       </div>
+
+      {/* Days on the road, from the activity dates */}
+      {journeyDays.daysOnTheRoad > 0 && (
+        <p className="mb-4 text-sm text-gray-700 dark:text-gray-300">
+          {journeyDays.daysOnTheRoad} {journeyDays.daysOnTheRoad === 1 ? 'day' : 'days'} on the road
+          {' · '}{journeyDays.ridingDays} riding {journeyDays.ridingDays === 1 ? 'day' : 'days'}
+          {' · '}{journeyDays.restDays} rest {journeyDays.restDays === 1 ? 'day' : 'days'}
+          {journeyDays.stops.length > 0 && <>{' · '}{journeyDays.stops.length} overnight {journeyDays.stops.length === 1 ? 'stop' : 'stops'}</>}
+        </p>
+      )}
+
+      {/* Activities per sport type, doubling as the route colour legend */}
+      {(Object.keys(stats.activityTypes).length > 0 || plannedRoute || transitData || overnightStopData) && (
+        <div className="mb-6 flex flex-wrap gap-4 text-sm">
+          {Object.entries(stats.activityTypes).map(([sportType, count]) => (
+            <div key={sportType} className="flex items-center">
+              <span
+                className="inline-block w-4 h-1 mr-2 rounded"
+                style={{ backgroundColor: sportTypeColor(sportType, isDarkMode) }}
+              />
+              <span>{sportType} ({count})</span>
+            </div>
+          ))}
+          {plannedRoute && (
+            <div className="flex items-center">
+              <span
+                className="inline-block w-4 mr-2 border-t-2 border-dashed"
+                style={{ borderColor: isDarkMode ? PLANNED_ROUTE_COLOR[1] : PLANNED_ROUTE_COLOR[0] }}
+              />
+              <span>Planned route</span>
+            </div>
+          )}
+          {overnightStopData && (
+            <div className="flex items-center">
+              <span
+                className="inline-block w-3 h-3 mr-2 rounded-full"
+                style={{ backgroundColor: isDarkMode ? OVERNIGHT_STOP_COLOR[1] : OVERNIGHT_STOP_COLOR[0] }}
+              />
+              <span>Overnight stop</span>
+            </div>
+          )}
+          {transitData && (
+            <div className="flex items-center">
+              <span
+                className="inline-block w-4 mr-2 border-t-2 border-dotted"
+                style={{ borderColor: isDarkMode ? TRANSIT_COLOR[1] : TRANSIT_COLOR[0] }}
+              />
+              <span>Transit ({transitGaps.length})</span>
+            </div>
+          )}
+          {offRouteData && (
+            <div className="flex items-center">
+              <span
+                className="inline-block w-4 h-1.5 mr-2 rounded opacity-50"
+                style={{ backgroundColor: isDarkMode ? OFF_ROUTE_COLOR[1] : OFF_ROUTE_COLOR[0] }}
+              />
+              <span>Ridden off-route</span>
+            </div>
+          )}
+        </div>
+      )}
       
       {/* The map container */}
       <div className="relative h-96 md:h-[600px] w-full rounded-lg overflow-hidden" id="journey-map">
@@ -314,6 +648,11 @@ export function JourneyMap({ activities, startDate }: JourneyMapProps) {
           <div className="absolute inset-0 flex items-center justify-center bg-slate-200 dark:bg-slate-700">
             <p>Loading map...</p>
           </div>
+        ) : status?.state === 'unavailable' ? (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-slate-200 dark:bg-slate-700 text-center px-4">
+            <p className="text-lg font-semibold">Map temporarily unavailable</p>
+            <p className="mt-1 text-sm">Please check back later.</p>
+          </div>
         ) : (
           <>
             {/* The actual map component */}
@@ -323,7 +662,7 @@ export function JourneyMap({ activities, startDate }: JourneyMapProps) {
               mapStyle={mapStyle}
               mapboxAccessToken={process.env.NEXT_PUBLIC_MAPBOX_TOKEN}
               style={{ width: '100%', height: '100%' }}
-              interactiveLayerIds={['journey-lines']}
+              interactiveLayerIds={['journey-lines', 'overnight-stops']}
               onClick={handleMapClick}
               onMouseEnter={onMouseEnter}
               onMouseLeave={onMouseLeave}
@@ -355,17 +694,90 @@ export function JourneyMap({ activities, startDate }: JourneyMapProps) {
                   </Marker>
                 )}
 
+              {/* Planned route, with the sections ridden off-route highlighted */}
+              {plannedRouteData && (
+                <Source id="planned-route" type="geojson" data={plannedRouteData}>
+                  <Layer {...plannedRouteLayer} beforeId={beforeRoutes} />
+                </Source>
+              )}
+              {offRouteData && (
+                <Source id="planned-route-off" type="geojson" data={offRouteData}>
+                  <Layer {...offRouteLayer} beforeId={beforeRoutes} />
+                </Source>
+              )}
+
+              {/* Train, ferry and flight connectors between activities */}
+              {transitData && (
+                <Source id="transit-connectors" type="geojson" data={transitData}>
+                  <Layer {...transitLayer} />
+                  <Layer {...transitLabelLayer} />
+                </Source>
+              )}
+
               {/* Render journey polylines if data is available */}
               {journeyData && journeyData.features.length > 0 && (
                 <Source id="journey-routes" type="geojson" data={journeyData}>
                   <Layer {...lineLayer} />
                 </Source>
               )}
+
+              {/* The point hovered on an elevation profile */}
+              {profileHover?.location && (
+                <Marker longitude={profileHover.location[1]} latitude={profileHover.location[0]} anchor="center">
+                  <div className="w-3 h-3 rounded-full bg-purple-600 dark:bg-purple-400 border-2 border-white shadow" />
+                </Marker>
+              )}
+
+              {/* The clicked activity, labelled with where it went */}
+              {popupInfo && (
+                <Popup
+                  longitude={popupInfo.longitude}
+                  latitude={popupInfo.latitude}
+                  anchor="bottom"
+                  closeOnClick={false}
+                  onClose={() => setPopupInfo(null)}
+                >
+                  <p className="font-semibold text-slate-900">{popupInfo.activity.name}</p>
+                  {popupLabel && <p className="text-sm text-slate-700">{popupLabel}</p>}
+                </Popup>
+              )}
+
+              {/* Where we slept */}
+              {overnightStopData && (
+                <Source id="overnight-stops" type="geojson" data={overnightStopData}>
+                  <Layer {...overnightStopLayer} />
+                </Source>
+              )}
+              {selectedStop && (
+                <Popup
+                  longitude={selectedStop.location[1]}
+                  latitude={selectedStop.location[0]}
+                  anchor="bottom"
+                  offset={10}
+                  closeOnClick={false}
+                  onClose={() => setSelectedStop(null)}
+                >
+                  <p className="font-semibold text-slate-900">
+                    {selectedStop.nights === 1 ? 'Overnight stop' : `${selectedStop.nights} nights`}
+                  </p>
+                  <p className="text-sm text-slate-700">From {formatCalendarDate(selectedStop.firstNight)}</p>
+                </Popup>
+              )}
               
             </Map>
           </>
         )}
       </div>
+
+      {slug && status?.state !== 'unavailable' && activities.length > 0 && (
+        <div className="mt-4">
+          <RouteDownloads slug={slug} label="Download route:" />
+        </div>
+      )}
+
+      {journeyProfile && status?.state !== 'unavailable' && (
+        <ElevationProfileChart profile={journeyProfile} title="Elevation profile" onHover={setProfileHover} />
+      )}
       
       {/* Map legend */}
         {/* {currentLocation && (
@@ -386,6 +798,10 @@ export function JourneyMap({ activities, startDate }: JourneyMapProps) {
       {selectedActivity && (
         <div className="mt-6 bg-white dark:bg-slate-800 rounded-lg p-4 shadow-md">
           <h3 className="text-xl font-bold mb-2">{selectedActivity.name}</h3>
+          {selectedLabel && <p className="-mt-1 mb-3 text-gray-600 dark:text-gray-400">{selectedLabel}</p>}
+          {selectedActivity.description && (
+            <p className="mb-4 text-gray-700 dark:text-gray-300">{selectedActivity.description}</p>
+          )}
           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
             <div>
               <p className="text-sm text-gray-600 dark:text-gray-400">Date</p>
@@ -393,11 +809,11 @@ export function JourneyMap({ activities, startDate }: JourneyMapProps) {
             </div>
             <div>
               <p className="text-sm text-gray-600 dark:text-gray-400">Type</p>
-              <p>{selectedActivity.type}</p>
+              <p>{getSportType(selectedActivity)}</p>
             </div>
             <div>
               <p className="text-sm text-gray-600 dark:text-gray-400">Distance</p>
-              <p>{formatDistance(selectedActivity.distance, 'km')}</p>
+              <p>{units.distance(selectedActivity.distance)}</p>
             </div>
             <div>
               <p className="text-sm text-gray-600 dark:text-gray-400">Duration</p>
@@ -409,9 +825,13 @@ export function JourneyMap({ activities, startDate }: JourneyMapProps) {
           {selectedActivity.total_elevation_gain && (
             <div className="mt-3">
               <p className="text-sm text-gray-600 dark:text-gray-400">Elevation Gain</p>
-              <p>{selectedActivity.total_elevation_gain} m</p>
+              <p>{units.elevation(selectedActivity.total_elevation_gain)}</p>
             </div>
           )}
+
+          {selectedProfile && (
+            <ElevationProfileChart profile={selectedProfile} title="Elevation" onHover={setProfileHover} />
+          )}
           
           {/* Is this the current location? */}
           {currentLocation && currentLocation.activity.id === selectedActivity.id && (
@@ -420,8 +840,17 @@ export function JourneyMap({ activities, startDate }: JourneyMapProps) {
             </div>
           )}
           
-          {/* Show link to Strava activity */}
-          {selectedActivity.id && (
+          {slug && selectedActivity.start_date_local && (
+            <div className="mt-4 flex flex-wrap items-center gap-4">
+              <Link href={`/journeys/${slug}/days/${selectedActivity.start_date_local.slice(0, 10)}`} className="text-sm underline hover:text-blue-600 dark:hover:text-blue-400">
+                View this day
+              </Link>
+              <RouteDownloads slug={slug} label="Download this day:" scope={{ date: selectedActivity.start_date_local.slice(0, 10) }} />
+            </div>
+          )}
+
+          {/* Show link to Strava activity (not for activities read from track files) */}
+          {isStravaActivity(selectedActivity) && (
             <div className="mt-4">
               <a 
                 href={`https://www.strava.com/activities/${selectedActivity.id}`}
@@ -0,0 +1,17 @@
+"use client";
+
+import { useUnits } from "./unit-switcher";
+
+type Props = {
+  kind: "distance" | "elevation" | "speed" | "pace";
+  // Meters, or meters per second for speed and pace
+  value: number | undefined;
+};
+
+/**
+ * A distance, elevation, speed or pace in the reader's units, for use in server components
+ */
+export function Measurement({ kind, value }: Props) {
+  const units = useUnits();
+  return <>{units[kind](value)}</>;
+}
@@ -0,0 +1,86 @@
+import { StravaTokens } from "@/lib/token-store";
+
+type Props = {
+  tokens: StravaTokens | null;
+  error?: string;
+};
+
+const ERROR_MESSAGES: Record<string, string> = {
+  invalid_key: "The admin key was not accepted.",
+  invalid_state: "The Strava response could not be verified. Please try again.",
+  access_denied: "Strava access was not granted.",
+  missing_scope: "Please allow access to all activities, including private ones.",
+  wrong_athlete: "That Strava account is not the blog owner's.",
+  exchange_failed: "Strava did not accept the authorization. Please try again.",
+};
+
+export function StravaConnection({ tokens, error }: Props) {
+  const athlete = tokens?.athlete;
+  const athleteName = athlete
+    ? [athlete.firstname, athlete.lastname].filter(Boolean).join(" ")
+    : null;
+
+  return (
+    <section className="mb-16 bg-white dark:bg-slate-800 rounded-lg p-6 shadow-sm">
+      {error && (
+        <p className="mb-4 px-3 py-2 bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-100 rounded">
+          {ERROR_MESSAGES[error] || "Something went wrong connecting Strava."}
+        </p>
+      )}
+
+      {tokens ? (
+        <div className="flex items-center gap-4">
+          {athlete?.profile_medium && (
+            <img
+              src={athlete.profile_medium}
+              className="w-12 h-12 rounded-full"
+              alt={athleteName || "Strava athlete"}
+            />
+          )}
+          <div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Connected to Strava as</p>
+            <p className="text-xl font-bold">
+              {athleteName || `Athlete ${athlete?.id ?? "unknown"}`}
+            </p>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xl font-bold">No Strava account connected.</p>
+      )}
+
+      <div className="mt-6 flex flex-col md:flex-row gap-6">
+        <form action="/api/strava/connect" method="POST" className="flex gap-2">
+          <input
+            type="password"
+            name="key"
+            placeholder="Admin key"
+            className="px-3 py-2 rounded border border-neutral-300 dark:bg-slate-700 dark:border-slate-600"
+          />
+          <button
+            type="submit"
+            className="bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded transition-colors"
+          >
+            {tokens ? "Reconnect" : "Connect with Strava"}
+          </button>
+        </form>
+
+        {tokens && (
+          <form action="/api/strava/disconnect" method="POST" className="flex gap-2">
+            <input
+              type="password"
+              name="key"
+              placeholder="Admin key"
+              className="px-3 py-2 rounded border border-neutral-300 dark:bg-slate-700 dark:border-slate-600"
+            />
+            <button
+              type="submit"
+              className="bg-black hover:bg-white hover:text-black border border-black text-white px-4 py-2 rounded transition-colors"
+            >
+              Disconnect
+            </button>
+          </form>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from "react";
+import {
+  UNIT_SYSTEMS,
+  UNIT_SYSTEM_LABELS,
+  type UnitSystem,
+  formatDistance,
+  formatElevation,
+  formatPace,
+  formatSpeed,
+  isUnitSystem,
+} from "@/lib/units";
+
+const STORAGE_KEY = "nextjs-blog-starter-units";
+
+type Units = {
+  system: UnitSystem;
+  setSystem: (system: UnitSystem) => void;
+  distance: (meters: number | undefined, decimals?: number) => string;
+  elevation: (meters: number | undefined) => string;
+  speed: (metersPerSecond: number | undefined) => string;
+  pace: (metersPerSecond: number | undefined) => string;
+};
+
+function unitsFor(system: UnitSystem, setSystem: (system: UnitSystem) => void): Units {
+  return {
+    system,
+    setSystem,
+    distance: (meters, decimals) => formatDistance(meters, system, decimals),
+    elevation: (meters) => formatElevation(meters, system),
+    speed: (metersPerSecond) => formatSpeed(metersPerSecond, system),
+    pace: (metersPerSecond) => formatPace(metersPerSecond, system),
+  };
+}
+
+const UnitsContext = createContext<Units>(unitsFor("metric", () => {}));
+
+/**
+ * Formatters for the reader's chosen units
+ */
+export const useUnits = () => useContext(UnitsContext);
+
+type ProviderProps = {
+  // The site's default, from the athlete's Strava preference
+  defaultSystem: UnitSystem;
+  children: ReactNode;
+};
+
+/**
+ * Provides the reader's units to everything below it
+ * Pages are rendered in the default units; a stored choice takes over once mounted
+ */
+export const UnitsProvider = ({ defaultSystem, children }: ProviderProps) => {
+  const [system, setSystemState] = useState<UnitSystem>(defaultSystem);
+
+  useEffect(() => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isUnitSystem(stored)) {
+      setSystemState(stored);
+    }
+
+    /** Sync the tabs */
+    const onStorage = (e: StorageEvent): void => {
+      e.key === STORAGE_KEY && isUnitSystem(e.newValue) && setSystemState(e.newValue);
+    };
+    addEventListener("storage", onStorage);
+    return () => removeEventListener("storage", onStorage);
+  }, []);
+
+  /** Only an explicit choice is stored, so readers who never switch follow the default */
+  const setSystem = useCallback((next: UnitSystem) => {
+    localStorage.setItem(STORAGE_KEY, next);
+    setSystemState(next);
+  }, []);
+
+  const units = useMemo(() => unitsFor(system, setSystem), [system, setSystem]);
+
+  return <UnitsContext.Provider value={units}>{children}</UnitsContext.Provider>;
+};
+
+/**
+ * Button to switch between kilometers and miles
+ */
+export const UnitSwitcher = () => {
+  const { system, setSystem } = useUnits();
+  const next = UNIT_SYSTEMS[(UNIT_SYSTEMS.indexOf(system) + 1) % UNIT_SYSTEMS.length];
+
+  return (
+    <button
+      className="absolute right-[56px] top-[70px] h-6 rounded-full border border-dashed border-current px-2 text-xs font-semibold"
+      onClick={() => setSystem(next)}
+      title={`Show ${next} units`}
+    >
+      {UNIT_SYSTEM_LABELS[system]}
+    </button>
+  );
+};
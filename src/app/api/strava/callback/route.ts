@@ -0,0 +1,84 @@
+import { revalidatePath } from "next/cache";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  OAUTH_STATE_COOKIE,
+  exchangeAuthorizationCode,
+  hasRequiredScopes,
+  safeEqual,
+} from "@/lib/strava-auth";
+import { StravaClient } from "@/lib/strava-client";
+import { MemoryTokenStore, StravaTokens, defaultTokenStore } from "@/lib/token-store";
+import { saveDefaultUnitSystem } from "@/lib/unit-preference";
+import { unitSystemFor } from "@/lib/units";
+
+/**
+ * Completes the Strava OAuth flow and saves the owner's tokens
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  const fail = (error: string) => {
+    const response = NextResponse.redirect(new URL(`/strava?error=${error}`, request.url));
+    response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: "/api/strava" });
+    return response;
+  };
+
+  // The state must match the cookie set by /api/strava/connect
+  if (!safeEqual(params.get("state"), request.cookies.get(OAUTH_STATE_COOKIE)?.value)) {
+    return fail("invalid_state");
+  }
+
+  const code = params.get("code");
+  if (params.get("error") || !code) {
+    return fail("access_denied");
+  }
+
+  if (!hasRequiredScopes(params.get("scope"))) {
+    return fail("missing_scope");
+  }
+
+  try {
+    const tokens = await exchangeAuthorizationCode(code);
+
+    // Only the blog owner's account may be connected when an athlete id is configured
+    const ownerId = process.env.STRAVA_ATHLETE_ID;
+    if (ownerId && String(tokens.athlete?.id) !== ownerId) {
+      return fail("wrong_athlete");
+    }
+
+    const scope = params.get("scope") || undefined;
+    await defaultTokenStore.save({ ...tokens, scope });
+
+    // The site's default units follow the athlete's; every page shows measurements
+    const measurementPreference = await getMeasurementPreference(tokens, scope);
+    if (measurementPreference) {
+      await saveDefaultUnitSystem(unitSystemFor(measurementPreference));
+      revalidatePath("/", "layout");
+    }
+  } catch (error) {
+    console.error("Failed to exchange Strava authorization code:", error);
+    return fail("exchange_failed");
+  }
+
+  const response = NextResponse.redirect(new URL("/strava", request.url));
+  response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: "/api/strava" });
+  return response;
+}
+
+/**
+ * The athlete's preferred units, which Strava only shares with profile:read_all
+ * Not worth failing the connection over; the site keeps its current default
+ */
+async function getMeasurementPreference(tokens: StravaTokens, scope: string | undefined) {
+  if (!scope?.split(",").includes("profile:read_all")) {
+    return undefined;
+  }
+
+  try {
+    const client = new StravaClient({ tokenStore: new MemoryTokenStore(tokens) });
+    return (await client.getLoggedInAthlete()).measurement_preference;
+  } catch (error) {
+    console.warn("Could not read the Strava athlete's measurement preference:", error);
+    return undefined;
+  }
+}
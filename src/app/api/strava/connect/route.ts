@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  OAUTH_STATE_COOKIE,
+  createOAuthState,
+  getAuthorizeUrl,
+  isAdminKeyValid,
+} from "@/lib/strava-auth";
+
+/**
+ * Starts the Strava OAuth authorization-code flow for the blog owner
+ */
+export async function POST(request: NextRequest) {
+  // Posted rather than in the query string, so the key stays out of logs and history
+  const form = await request.formData().catch(() => null);
+
+  if (!form) {
+    return NextResponse.json({ error: "Expected a form submission" }, { status: 400 });
+  }
+
+  if (!isAdminKeyValid(form.get("key")?.toString())) {
+    return NextResponse.redirect(new URL("/strava?error=invalid_key", request.url), 303);
+  }
+
+  const state = createOAuthState();
+  const redirectUri =
+    process.env.STRAVA_REDIRECT_URI ||
+    new URL("/api/strava/callback", request.url).toString();
+
+  const response = NextResponse.redirect(getAuthorizeUrl(redirectUri, state), 303);
+  response.cookies.set(OAUTH_STATE_COOKIE, state, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/api/strava",
+    maxAge: 10 * 60,
+  });
+
+  return response;
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deauthorize, isAdminKeyValid } from "@/lib/strava-auth";
+import { defaultTokenStore } from "@/lib/token-store";
+
+/**
+ * Revokes the connected Strava account and forgets its tokens
+ */
+export async function POST(request: NextRequest) {
+  const form = await request.formData().catch(() => null);
+
+  if (!form) {
+    return NextResponse.json({ error: "Expected a form submission" }, { status: 400 });
+  }
+
+  if (!isAdminKeyValid(form.get("key")?.toString())) {
+    return NextResponse.redirect(new URL("/strava?error=invalid_key", request.url), 303);
+  }
+
+  const tokens = await defaultTokenStore.load();
+
+  if (tokens) {
+    try {
+      await deauthorize(tokens.accessToken);
+    } catch (error) {
+      // The token may already be expired or revoked - forget it locally regardless
+      console.error("Failed to deauthorize Strava:", error);
+    }
+  }
+
+  // Even with nothing stored, so STRAVA_REFRESH_TOKEN cannot connect the account again
+  await defaultTokenStore.clear();
+
+  return NextResponse.redirect(new URL("/strava", request.url), 303);
+}
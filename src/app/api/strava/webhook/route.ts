@@ -0,0 +1,88 @@
+import { revalidatePath } from "next/cache";
+import { NextRequest, NextResponse, after } from "next/server";
+import { SummaryActivity } from "@/services/strava/api";
+import { ActivityStore } from "@/lib/activity-store";
+import { getAllPosts } from "@/lib/api";
+import { getAllJourneys, isActivityInJourney } from "@/lib/journeys";
+import { StravaClient } from "@/lib/strava-client";
+import {
+  handleWebhookEvent,
+  isWebhookEvent,
+  verifySubscription,
+} from "@/lib/strava-webhook";
+import { StreamCache } from "@/lib/stream-cache";
+import { defaultTokenStore } from "@/lib/token-store";
+
+/**
+ * Subscription handshake: Strava sends hub.challenge and expects it echoed back
+ */
+export async function GET(request: NextRequest) {
+  const challenge = verifySubscription(request.nextUrl.searchParams);
+
+  if (!challenge) {
+    return NextResponse.json({ error: "Invalid verify token" }, { status: 403 });
+  }
+
+  return NextResponse.json({ "hub.challenge": challenge });
+}
+
+/**
+ * Activity and athlete events
+ * Strava wants a 200 within two seconds, so the work happens after responding
+ */
+export async function POST(request: NextRequest) {
+  const event = await request.json().catch(() => undefined);
+
+  if (!isWebhookEvent(event)) {
+    return NextResponse.json({ error: "Invalid webhook event" }, { status: 400 });
+  }
+
+  after(async () => {
+    try {
+      const result = await handleWebhookEvent(event, {
+        store: new ActivityStore(),
+        tokenStore: defaultTokenStore,
+        streamCache: new StreamCache(),
+        createClient: () => new StravaClient(),
+      });
+
+      if (result.handled) {
+        revalidateActivityPages(result.changedActivities);
+      }
+    } catch (error) {
+      console.error(
+        `Failed to handle Strava ${event.object_type} ${event.aspect_type} event for ${event.object_id}:`,
+        error,
+      );
+    }
+  });
+
+  return NextResponse.json({ received: true });
+}
+
+/**
+ * Revalidate the home page, the journeys a changed activity belongs to (with their
+ * statistics and their pages for the days it was on) and any post published on the same day
+ */
+function revalidateActivityPages(activities: SummaryActivity[]) {
+  revalidatePath("/");
+
+  const activityDay = (activity: SummaryActivity) => (activity.start_date_local || activity.start_date)?.slice(0, 10);
+
+  getAllJourneys().forEach((journey) => {
+    const changed = activities.filter((activity) => isActivityInJourney(activity, journey));
+    if (changed.length === 0) return;
+
+    revalidatePath(`/journeys/${journey.slug}`);
+    revalidatePath(`/journeys/${journey.slug}/stats`);
+    new Set(changed.map(activityDay).filter(Boolean)).forEach((day) =>
+      revalidatePath(`/journeys/${journey.slug}/days/${day}`),
+    );
+  });
+
+  const days = new Set(activities.map(activityDay).filter(Boolean));
+
+  getAllPosts()
+    .filter((post) => days.has(post.date?.slice(0, 10)))
+    .forEach((post) => revalidatePath(`/posts/${post.slug}`));
+}
@@ -0,0 +1,144 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import { getJourneyBySlug } from "@/lib/journeys";
+import { CMS_NAME } from "@/lib/constants";
+import { formatDayLabel, formatRouteLabel } from "@/lib/activity-places";
+import { Journey } from "@/interfaces/journey";
+import { getJourneyActivities } from "@/app/_actions/strava";
+import Container from "@/app/_components/container";
+import DateFormatter from "@/app/_components/date-formatter";
+import Header from "@/app/_components/header";
+import { JourneyMap } from "@/app/_components/journey-map";
+import { Measurement } from "@/app/_components/measurement";
+
+export const revalidate = 3600;
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// The page and its metadata share one load per request
+const getDayActivities = cache(getJourneyActivities);
+
+/**
+ * The journey, if the date is a valid day within it
+ */
+function getJourneyDay(slug: string, date: string): Journey | undefined {
+  const journey = getJourneyBySlug(slug);
+  if (!journey || !DATE.test(date) || Number.isNaN(new Date(date).getTime())) {
+    return undefined;
+  }
+
+  const afterStart = date >= journey.startDate.slice(0, 10);
+  const beforeEnd = !journey.endDate || date <= journey.endDate.slice(0, 10);
+  return afterStart && beforeEnd ? journey : undefined;
+}
+
+export default async function JourneyDayPage(props: Params) {
+  const params = await props.params;
+  const journey = getJourneyDay(params.slug, params.date);
+
+  if (!journey) {
+    return notFound();
+  }
+
+  const { activities, streams, overrides, status, places } = await getDayActivities(journey);
+  const dayActivities = activities
+    .filter((activity) => activity.start_date_local?.startsWith(params.date))
+    .sort((a, b) => (a.start_date || "").localeCompare(b.start_date || ""));
+
+  // Only the day's routes are drawn, so only their streams are sent
+  const dayStreams = Object.fromEntries(
+    dayActivities
+      .filter((activity) => activity.id !== undefined && streams[activity.id])
+      .map((activity) => [activity.id, streams[activity.id!]]),
+  );
+  const label = formatDayLabel(dayActivities, places);
+
+  return (
+    <main>
+      <Container>
+        <Header />
+        <p className="mb-2 text-lg">
+          <Link href={`/journeys/${journey.slug}`} className="underline hover:text-blue-600 dark:hover:text-blue-400">
+            {journey.title}
+          </Link>
+        </p>
+        <h1 className="mb-4 text-5xl md:text-7xl font-bold tracking-tighter leading-tight">
+          {label || <DateFormatter dateString={params.date} />}
+        </h1>
+        {label && (
+          <p className="mb-12 text-lg">
+            <DateFormatter dateString={params.date} />
+          </p>
+        )}
+        <JourneyMap
+          activities={dayActivities}
+          streams={dayStreams}
+          overrides={overrides}
+          startDate={params.date}
+          title="Route"
+          status={status}
+          slug={journey.slug}
+          places={places}
+        />
+        <section className="mb-16 md:mb-20">
+          <h2 className="mb-4 text-3xl md:text-4xl font-bold tracking-tighter leading-tight">
+            Activities
+          </h2>
+          {dayActivities.length === 0 ? (
+            <p className="text-lg">Nothing recorded on this day.</p>
+          ) : (
+            <ol className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {dayActivities.map((activity) => {
+                const routeLabel = formatRouteLabel(places[String(activity.id)]);
+
+                return (
+                  <li key={activity.id} className="bg-white dark:bg-slate-800 rounded-lg p-4 shadow-sm">
+                    <h3 className="text-lg font-semibold">{activity.name}</h3>
+                    {routeLabel && routeLabel !== activity.name && (
+                      <p className="text-sm text-gray-600 dark:text-gray-400">{routeLabel}</p>
+                    )}
+                    <p className="mt-2">
+                      <Measurement kind="distance" value={activity.distance} /> ·{" "}
+                      <Measurement kind="elevation" value={activity.total_elevation_gain} /> up
+                    </p>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </section>
+      </Container>
+    </main>
+  );
+}
+
+type Params = {
+  params: Promise<{
+    slug: string;
+    date: string;
+  }>;
+};
+
+export async function generateMetadata(props: Params): Promise<Metadata> {
+  const params = await props.params;
+  const journey = getJourneyDay(params.slug, params.date);
+
+  if (!journey) {
+    return notFound();
+  }
+
+  const { activities, places } = await getDayActivities(journey);
+  const label = formatDayLabel(
+    activities.filter((activity) => activity.start_date_local?.startsWith(params.date)),
+    places,
+  );
+
+  const title = `${label || params.date} | ${journey.title} | Next.js Blog Example with ${CMS_NAME}`;
+
+  return {
+    title,
+    description: journey.description,
+  };
+}
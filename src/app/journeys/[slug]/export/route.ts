@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJourneyActivities } from "@/app/_actions/strava";
+import { processActivities } from "@/lib/activity-processor";
+import { getJourneyBySlug, isActivityInLeg } from "@/lib/journeys";
+import { ROUTE_EXPORT_FORMATS, exportRoute, isRouteExportFormat } from "@/lib/route-export";
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Download a journey's route, or one leg (?leg=2) or day (?date=2025-03-02) of it,
+ * as GPX, KML or GeoJSON (?format=gpx). Built from the same filtered, privacy-trimmed
+ * activities the map draws.
+ */
+export async function GET(request: NextRequest, props: Params) {
+  const { slug } = await props.params;
+  const journey = getJourneyBySlug(slug);
+  if (!journey) {
+    return NextResponse.json({ error: "Journey not found" }, { status: 404 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const format = searchParams.get("format");
+  if (!isRouteExportFormat(format)) {
+    return NextResponse.json({ error: "format must be gpx, kml or geojson" }, { status: 400 });
+  }
+
+  const legNumber = searchParams.has("leg") ? Number(searchParams.get("leg")) : undefined;
+  const leg = legNumber !== undefined ? journey.legs?.[legNumber - 1] : undefined;
+  if (legNumber !== undefined && !leg) {
+    return NextResponse.json({ error: "Leg not found" }, { status: 404 });
+  }
+
+  const date = searchParams.get("date");
+  if (date && !DATE.test(date)) {
+    return NextResponse.json({ error: "date must be YYYY-MM-DD" }, { status: 400 });
+  }
+
+  const { activities, streams, overrides, startDate, status } = await getJourneyActivities(journey);
+  if (status.state === "unavailable") {
+    return NextResponse.json({ error: "Route temporarily unavailable" }, { status: 503 });
+  }
+
+  const selected = activities.filter(
+    (activity) =>
+      (!leg || isActivityInLeg(activity, leg)) &&
+      (!date || activity.start_date_local?.startsWith(date))
+  );
+  const routes = processActivities(selected, startDate, streams, overrides);
+  if (routes.features.length === 0) {
+    return NextResponse.json({ error: "No route to export" }, { status: 404 });
+  }
+
+  const name = [journey.title, leg?.name, date].filter(Boolean).join(" – ");
+  const fileName = [journey.slug, legNumber !== undefined && `leg-${legNumber}`, date].filter(Boolean).join("-");
+
+  return new NextResponse(exportRoute(routes, format, name), {
+    headers: {
+      "Content-Type": ROUTE_EXPORT_FORMATS[format].contentType,
+      "Content-Disposition": `attachment; filename="${fileName}.${format}"`,
+    },
+  });
+}
+
+type Params = {
+  params: Promise<{
+    slug: string;
+  }>;
+};
@@ -0,0 +1,88 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getAllJourneys, getJourneyBySlug, summarizeLegs } from "@/lib/journeys";
+import { CMS_NAME } from "@/lib/constants";
+import { getJourneyActivities } from "@/app/_actions/strava";
+import Container from "@/app/_components/container";
+import DateFormatter from "@/app/_components/date-formatter";
+import Header from "@/app/_components/header";
+import { JourneyCountries } from "@/app/_components/journey-countries";
+import { JourneyLegs } from "@/app/_components/journey-legs";
+import { JourneyMap } from "@/app/_components/journey-map";
+
+export const revalidate = 3600;
+
+export default async function JourneyPage(props: Params) {
+  const params = await props.params;
+  const journey = getJourneyBySlug(params.slug);
+
+  if (!journey) {
+    return notFound();
+  }
+
+  const { activities, streams, overrides, startDate, status, plannedRoute, transitGaps, countries, places } = await getJourneyActivities(journey);
+
+  return (
+    <main>
+      <Container>
+        <Header />
+        <h1 className="mb-4 text-5xl md:text-7xl font-bold tracking-tighter leading-tight">
+          {journey.title}
+        </h1>
+        <p className="mb-2 text-lg">
+          <DateFormatter dateString={journey.startDate} />
+          {" – "}
+          {journey.endDate ? <DateFormatter dateString={journey.endDate} /> : "ongoing"}
+          {" · "}
+          <Link href={`/journeys/${journey.slug}/stats`} className="underline hover:text-blue-600 dark:hover:text-blue-400">
+            Statistics
+          </Link>
+        </p>
+        {journey.description && <p className="mb-12 text-lg">{journey.description}</p>}
+        <JourneyMap
+          activities={activities}
+          streams={streams}
+          overrides={overrides}
+          startDate={startDate}
+          title="Route"
+          status={status}
+          slug={journey.slug}
+          plannedRoute={plannedRoute}
+          transitGaps={transitGaps}
+          places={places}
+        />
+        <JourneyLegs legs={summarizeLegs(journey, activities, overrides)} slug={journey.slug} />
+        <JourneyCountries summary={countries} />
+      </Container>
+    </main>
+  );
+}
+
+type Params = {
+  params: Promise<{
+    slug: string;
+  }>;
+};
+
+export async function generateMetadata(props: Params): Promise<Metadata> {
+  const params = await props.params;
+  const journey = getJourneyBySlug(params.slug);
+
+  if (!journey) {
+    return notFound();
+  }
+
+  const title = `${journey.title} | Next.js Blog Example with ${CMS_NAME}`;
+
+  return {
+    title,
+    description: journey.description,
+  };
+}
+
+export async function generateStaticParams() {
+  return getAllJourneys().map((journey) => ({
+    slug: journey.slug,
+  }));
+}
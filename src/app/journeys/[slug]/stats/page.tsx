@@ -0,0 +1,229 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { type ReactNode } from "react";
+import { getAllJourneys, getJourneyBySlug } from "@/lib/journeys";
+import { CMS_NAME } from "@/lib/constants";
+import { type ActivityTotals, type PeriodStats, summarizeJourneyStats } from "@/lib/journey-stats";
+import { getJourneyActivities } from "@/app/_actions/strava";
+import Container from "@/app/_components/container";
+import DateFormatter from "@/app/_components/date-formatter";
+import Header from "@/app/_components/header";
+import { Measurement } from "@/app/_components/measurement";
+
+export const revalidate = 3600;
+
+// Sports on foot are shown as a pace rather than a speed
+const PACE_SPORT_TYPES = ["Run", "TrailRun", "Walk", "Hike"];
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+function formatMonth(period: string): string {
+  return new Date(`${period}-01`).toLocaleDateString("en-GB", { month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+function StatCard({ title, value, detail }: { title: string; value: ReactNode; detail?: ReactNode }) {
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg p-4 shadow-sm">
+      <h3 className="text-lg font-semibold">{title}</h3>
+      <p className="text-2xl font-bold">{value}</p>
+      {detail && <p className="text-sm text-gray-600 dark:text-gray-400">{detail}</p>}
+    </div>
+  );
+}
+
+function PeriodTable({ title, heading, periods, label }: { title: string; heading: string; periods: PeriodStats[]; label: (period: string) => ReactNode }) {
+  const longest = Math.max(...periods.map((period) => period.distance), 1);
+
+  return (
+    <section className="mb-12">
+      <h2 className="mb-4 text-3xl font-bold tracking-tighter leading-tight">{title}</h2>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="text-sm text-gray-600 dark:text-gray-400">
+            <tr>
+              <th className="py-2 pr-4 font-normal">{heading}</th>
+              <th className="py-2 pr-4 font-normal">Distance</th>
+              <th className="py-2 pr-4 font-normal">Climbing</th>
+              <th className="py-2 pr-4 font-normal">Moving time</th>
+              <th className="py-2 pr-4 font-normal">Riding speed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {periods.map((period) => (
+              <tr key={period.period} className="border-t border-gray-200 dark:border-slate-700">
+                <td className="py-2 pr-4 whitespace-nowrap">{label(period.period)}</td>
+                <td className="py-2 pr-4 w-1/3">
+                  <div className="flex items-center gap-2">
+                    <span
+                      className="inline-block h-2 rounded bg-blue-600 dark:bg-blue-400"
+                      style={{ width: `${(period.distance / longest) * 100}%` }}
+                    />
+                    <span className="whitespace-nowrap"><Measurement kind="distance" value={period.distance} /></span>
+                  </div>
+                </td>
+                <td className="py-2 pr-4 whitespace-nowrap"><Measurement kind="elevation" value={period.elevationGain} /></td>
+                <td className="py-2 pr-4 whitespace-nowrap">{formatDuration(period.movingTime)}</td>
+                <td className="py-2 pr-4 whitespace-nowrap"><Measurement kind="speed" value={period.ridingAverageSpeed} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
+
+function DayDetail({ day }: { day: ActivityTotals }) {
+  return (
+    <>
+      <Measurement kind="distance" value={day.distance} /> · <Measurement kind="elevation" value={day.elevationGain} /> up
+      {" · "}
+      {formatDuration(day.movingTime)} moving
+    </>
+  );
+}
+
+export default async function JourneyStatsPage(props: Params) {
+  const params = await props.params;
+  const journey = getJourneyBySlug(params.slug);
+
+  if (!journey) {
+    return notFound();
+  }
+
+  const { activities, overrides, status } = await getJourneyActivities(journey);
+  const stats = summarizeJourneyStats(activities, overrides);
+  const { totals } = stats;
+
+  return (
+    <main>
+      <Container>
+        <Header />
+        <h1 className="mb-4 text-5xl md:text-7xl font-bold tracking-tighter leading-tight">
+          Statistics
+        </h1>
+        <p className="mb-12 text-lg">
+          <Link href={`/journeys/${journey.slug}`} className="underline hover:text-blue-600 dark:hover:text-blue-400">
+            {journey.title}
+          </Link>
+        </p>
+
+        {status.state === "unavailable" ? (
+          <p className="mb-12 text-lg">Statistics are temporarily unavailable. Please check back later.</p>
+        ) : totals.activities === 0 ? (
+          <p className="mb-12 text-lg">Nothing recorded yet.</p>
+        ) : (
+          <>
+            <section className="mb-12 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              <StatCard
+                title="Distance"
+                value={<Measurement kind="distance" value={totals.distance} />}
+                detail={`${totals.activities} ${totals.activities === 1 ? "activity" : "activities"}`}
+              />
+              <StatCard title="Climbing" value={<Measurement kind="elevation" value={totals.elevationGain} />} />
+              <StatCard
+                title="Moving time"
+                value={formatDuration(totals.movingTime)}
+                detail={
+                  totals.elapsedTime > 0
+                    ? `of ${formatDuration(totals.elapsedTime)} elapsed (${Math.round((totals.movingTime / totals.elapsedTime) * 100)}%)`
+                    : undefined
+                }
+              />
+              <StatCard title="Average speed" value={<Measurement kind="speed" value={totals.averageSpeed} />} detail="while moving" />
+              <StatCard
+                title="Riding days"
+                value={String(stats.ridingDays)}
+                detail={stats.averageRidingDay && <>Average day: <DayDetail day={stats.averageRidingDay} /></>}
+              />
+              {stats.longestDay && (
+                <StatCard
+                  title="Longest day"
+                  value={<Measurement kind="distance" value={stats.longestDay.distance} />}
+                  detail={
+                    <Link href={`/journeys/${journey.slug}/days/${stats.longestDay.date}`} className="underline">
+                      <DateFormatter dateString={stats.longestDay.date} />
+                    </Link>
+                  }
+                />
+              )}
+              {stats.hilliestDay && (
+                <StatCard
+                  title="Hilliest day"
+                  value={<Measurement kind="elevation" value={stats.hilliestDay.elevationGain} />}
+                  detail={
+                    <Link href={`/journeys/${journey.slug}/days/${stats.hilliestDay.date}`} className="underline">
+                      <DateFormatter dateString={stats.hilliestDay.date} />
+                    </Link>
+                  }
+                />
+              )}
+            </section>
+
+            <PeriodTable
+              title="Weekly"
+              heading="Week of"
+              periods={stats.weeks}
+              label={(period) => <DateFormatter dateString={period} />}
+            />
+            <PeriodTable title="Monthly" heading="Month" periods={stats.months} label={formatMonth} />
+
+            <section className="mb-16 md:mb-20">
+              <h2 className="mb-4 text-3xl font-bold tracking-tighter leading-tight">By sport</h2>
+              <ol className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {stats.sportTypes.map((sportType) => (
+                  <li key={sportType.sportType} className="bg-white dark:bg-slate-800 rounded-lg p-4 shadow-sm">
+                    <h3 className="text-lg font-semibold">{sportType.sportType}</h3>
+                    <p className="mt-2">
+                      {sportType.activities} {sportType.activities === 1 ? "activity" : "activities"} ·{" "}
+                      <Measurement kind="distance" value={sportType.distance} /> ·{" "}
+                      <Measurement kind="elevation" value={sportType.elevationGain} /> up
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {formatDuration(sportType.movingTime)} moving ·{" "}
+                      <Measurement
+                        kind={PACE_SPORT_TYPES.includes(sportType.sportType) ? "pace" : "speed"}
+                        value={sportType.averageSpeed}
+                      />
+                    </p>
+                  </li>
+                ))}
+              </ol>
+            </section>
+          </>
+        )}
+      </Container>
+    </main>
+  );
+}
+
+type Params = {
+  params: Promise<{
+    slug: string;
+  }>;
+};
+
+export async function generateMetadata(props: Params): Promise<Metadata> {
+  const params = await props.params;
+  const journey = getJourneyBySlug(params.slug);
+
+  if (!journey) {
+    return notFound();
+  }
+
+  return {
+    title: `Statistics | ${journey.title} | Next.js Blog Example with ${CMS_NAME}`,
+    description: journey.description,
+  };
+}
+
+export async function generateStaticParams() {
+  return getAllJourneys().map((journey) => ({
+    slug: journey.slug,
+  }));
+}
@@ -4,6 +4,8 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import cn from "classnames";
 import { ThemeSwitcher } from "./_components/theme-switcher";
+import { UnitSwitcher, UnitsProvider } from "./_components/unit-switcher";
+import { loadDefaultUnitSystem } from "@/lib/unit-preference";
 
 import "./globals.css";
 
@@ -17,7 +19,7 @@ export const metadata: Metadata = {
   },
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
@@ -60,9 +62,12 @@ export default function RootLayout({
       <body
         className={cn(inter.className, "dark:bg-slate-900 dark:text-slate-400")}
       >
-        <ThemeSwitcher />
-        <div className="min-h-screen">{children}</div>
-        <Footer />
+        <UnitsProvider defaultSystem={await loadDefaultUnitSystem()}>
+          <ThemeSwitcher />
+          <UnitSwitcher />
+          <div className="min-h-screen">{children}</div>
+          <Footer />
+        </UnitsProvider>
       </body>
     </html>
   );
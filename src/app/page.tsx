@@ -1,28 +1,45 @@
 import Container from "@/app/_components/container";
 import { Intro } from "@/app/_components/intro";
+import { CountriesStrip } from "@/app/_components/countries-strip";
 import { MoreStories } from "@/app/_components/more-stories";
 import { JourneyMap } from "@/app/_components/journey-map";
 import { getAllPosts } from "@/lib/api";
+import { getCurrentJourney } from "@/lib/journeys";
 import { getJourneyActivities } from "@/app/_actions/strava";
 
+export const revalidate = 3600;
+
 export default async function Index() {
   const allPosts = getAllPosts();
   const morePosts = allPosts.slice(1);
   
-  // Set the journey start date - this would be configurable
-  const journeyStartDate = process.env.JOURNEY_START_DATE || '2025-03-01T00:00:00Z';
+  // Feature the trip in progress, or the latest one (configured in _data/journeys.json)
+  const journey = getCurrentJourney();
   
-  // Fetch Strava activities (currently mock data)
-  const { activities, startDate } = await getJourneyActivities(journeyStartDate);
+  // Fetch Strava activities from the local store, synced with Strava when due
+  const { activities, streams, overrides, startDate, status, plannedRoute, transitGaps, countries, places } = await getJourneyActivities(journey);
 
   return (
     <main>
       <Container>
         <Intro />
+        <CountriesStrip countries={countries.countries} />
         {/* Replace HeroPost with JourneyMap */}
-        <JourneyMap activities={activities} startDate={startDate} />
+        <JourneyMap
+          activities={activities}
+          streams={streams}
+          overrides={overrides}
+          startDate={startDate}
+          title={journey.title}
+          href={`/journeys/${journey.slug}`}
+          status={status}
+          slug={journey.slug}
+          plannedRoute={plannedRoute}
+          transitGaps={transitGaps}
+          places={places}
+        />
         {morePosts.length > 0 && <MoreStories posts={morePosts} />}
       </Container>
     </main>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,18 @@
+import { notFound, redirect } from "next/navigation";
+import { getCurrentJourney } from "@/lib/journeys";
+
+// Re-check hourly which journey is current
+export const revalidate = 3600;
+
+/**
+ * The statistics of the journey featured on the home page
+ */
+export default function StatsPage() {
+  const journey = getCurrentJourney();
+
+  if (!journey) {
+    return notFound();
+  }
+
+  redirect(`/journeys/${journey.slug}/stats`);
+}
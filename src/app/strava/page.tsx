@@ -0,0 +1,36 @@
+import { Metadata } from "next";
+import Container from "@/app/_components/container";
+import Header from "@/app/_components/header";
+import { StravaConnection } from "@/app/_components/strava-connection";
+import { defaultTokenStore } from "@/lib/token-store";
+
+// Connection status comes from the token store, so never serve a cached copy
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Strava connection",
+  robots: { index: false },
+};
+
+export default async function StravaPage(props: Params) {
+  const searchParams = await props.searchParams;
+  const tokens = await defaultTokenStore.load();
+
+  return (
+    <main>
+      <Container>
+        <Header />
+        <h1 className="mb-8 text-5xl md:text-7xl font-bold tracking-tighter leading-tight">
+          Strava
+        </h1>
+        <StravaConnection tokens={tokens} error={searchParams.error} />
+      </Container>
+    </main>
+  );
+}
+
+type Params = {
+  searchParams: Promise<{
+    error?: string;
+  }>;
+};
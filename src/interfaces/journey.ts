@@ -0,0 +1,21 @@
+import { type ActivityFilter } from "@/lib/activity-filter";
+
+export type JourneyLeg = {
+  name: string;
+  startDate: string;
+  endDate?: string;
+};
+
+export type Journey = {
+  slug: string;
+  title: string;
+  description?: string;
+  startDate: string;
+  // Missing while the trip is still going
+  endDate?: string;
+  // Overrides the JOURNEY_* environment filter for this trip
+  filter?: ActivityFilter;
+  legs?: JourneyLeg[];
+  // Planned route file in _data/routes (.gpx or .geojson), drawn under the ridden routes
+  plannedRoute?: string;
+};
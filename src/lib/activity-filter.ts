@@ -0,0 +1,93 @@
+import { SportType, SummaryActivity } from '@/services/strava/api';
+
+/**
+ * Which activities count towards a journey
+ */
+export interface ActivityFilter {
+  // Allow-list of sport types; when empty or missing every sport type is allowed
+  include?: SportType[];
+  // Deny-list of sport types, applied after the allow-list
+  exclude?: SportType[];
+  // Drop indoor trainer activities
+  excludeTrainer?: boolean;
+  // Drop activities flagged as commutes
+  excludeCommute?: boolean;
+}
+
+/**
+ * Everything ridden on a bike plus hike-a-bike days
+ */
+export const DEFAULT_ACTIVITY_FILTER: ActivityFilter = {
+  include: [
+    'Ride',
+    'GravelRide',
+    'MountainBikeRide',
+    'EBikeRide',
+    'EMountainBikeRide',
+    'Hike'
+  ],
+  exclude: ['VirtualRide'],
+  excludeTrainer: true,
+  excludeCommute: false
+};
+
+/**
+ * The sport type of an activity, falling back to the older `type` field
+ * (activity types are a subset of sport types)
+ */
+export function getSportType(activity: SummaryActivity): SportType | undefined {
+  return activity.sport_type || activity.type;
+}
+
+/**
+ * Whether an activity passes a journey's filter
+ */
+export function matchesActivityFilter(activity: SummaryActivity, filter: ActivityFilter): boolean {
+  const sportType = getSportType(activity);
+
+  if (filter.include && filter.include.length > 0 && (!sportType || !filter.include.includes(sportType))) {
+    return false;
+  }
+
+  if (sportType && filter.exclude?.includes(sportType)) {
+    return false;
+  }
+
+  if (filter.excludeTrainer && activity.trainer) {
+    return false;
+  }
+
+  if (filter.excludeCommute && activity.commute) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Parse a comma separated list of sport types
+ */
+function parseSportTypes(value: string | undefined): SportType[] | undefined {
+  if (!value) return undefined;
+
+  return value
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean) as SportType[];
+}
+
+/**
+ * The journey's filter, taken from the JOURNEY_* environment variables with the defaults above
+ */
+export function getJourneyActivityFilter(): ActivityFilter {
+  return {
+    include: parseSportTypes(process.env.JOURNEY_SPORT_TYPES) ?? DEFAULT_ACTIVITY_FILTER.include,
+    exclude: parseSportTypes(process.env.JOURNEY_EXCLUDED_SPORT_TYPES) ?? DEFAULT_ACTIVITY_FILTER.exclude,
+    excludeTrainer: process.env.JOURNEY_EXCLUDE_TRAINER
+      ? process.env.JOURNEY_EXCLUDE_TRAINER === 'true'
+      : DEFAULT_ACTIVITY_FILTER.excludeTrainer,
+    excludeCommute: process.env.JOURNEY_EXCLUDE_COMMUTE
+      ? process.env.JOURNEY_EXCLUDE_COMMUTE === 'true'
+      : DEFAULT_ACTIVITY_FILTER.excludeCommute
+  };
+}
@@ -0,0 +1,66 @@
+import { SportType, SummaryActivity } from '@/services/strava/api';
+
+/**
+ * Local corrections to a single Strava activity, so fixes don't need editing on Strava
+ */
+export interface ActivityOverride {
+  // Leave the activity out entirely, e.g. a test ride
+  hide?: boolean;
+  name?: string;
+  description?: string;
+  sportType?: SportType;
+  // Still draw the route, but don't count it in distance/elevation/activity totals (e.g. a shuttle)
+  excludeFromStats?: boolean;
+}
+
+/**
+ * Overrides keyed by Strava activity id
+ */
+export type ActivityOverrides = Record<string, ActivityOverride>;
+
+/**
+ * Summary activities don't carry a description, but an override can add one
+ */
+export type OverriddenActivity = SummaryActivity & { description?: string };
+
+function getOverride(activity: SummaryActivity, overrides: ActivityOverrides): ActivityOverride | undefined {
+  return activity.id !== undefined ? overrides[String(activity.id)] : undefined;
+}
+
+/**
+ * Drop hidden activities and apply renames, descriptions and sport type changes
+ * Safe to apply more than once
+ */
+export function applyActivityOverrides(activities: OverriddenActivity[], overrides: ActivityOverrides): OverriddenActivity[] {
+  return activities
+    .filter(activity => !getOverride(activity, overrides)?.hide)
+    .map(activity => {
+      const override = getOverride(activity, overrides);
+      if (!override) return activity;
+
+      return {
+        ...activity,
+        name: override.name ?? activity.name,
+        description: override.description ?? activity.description,
+        sport_type: override.sportType ?? activity.sport_type
+      };
+    });
+}
+
+/**
+ * Whether an activity should be left out of journey totals
+ */
+export function isExcludedFromStats(activity: SummaryActivity, overrides: ActivityOverrides): boolean {
+  return !!getOverride(activity, overrides)?.excludeFromStats;
+}
+
+/**
+ * The overrides for the given activities only, so notes on hidden or unrelated ones stay private
+ */
+export function pickOverrides(activities: SummaryActivity[], overrides: ActivityOverrides): ActivityOverrides {
+  return Object.fromEntries(
+    activities
+      .map(activity => [String(activity.id), getOverride(activity, overrides)] as const)
+      .filter((entry): entry is readonly [string, ActivityOverride] => entry[1] !== undefined)
+  );
+}
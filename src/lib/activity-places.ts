@@ -0,0 +1,58 @@
+import { SummaryActivity } from '@/services/strava/api';
+
+/**
+ * The towns an activity started and finished in, from the offline gazetteer
+ */
+export interface ActivityPlaces {
+  start?: string;
+  end?: string;
+}
+
+/**
+ * Places keyed by activity id
+ */
+export type ActivityPlacesById = Record<string, ActivityPlaces>;
+
+// Names Strava (and most devices) give activities by default, e.g. "Morning Ride" or "Lunch Walk"
+const GENERIC_NAME = /^(Morning|Afternoon|Evening|Lunch|Night)\s+\S+$/i;
+
+/**
+ * Whether the activity still has its auto-generated name
+ */
+export function isGenericActivityName(name: string | undefined): boolean {
+  return !name || GENERIC_NAME.test(name.trim());
+}
+
+/**
+ * "From Calais to Saint-Omer", "Around Paris", or null without any places
+ */
+export function formatRouteLabel(places: ActivityPlaces | undefined): string | null {
+  if (!places?.start && !places?.end) return null;
+  if (places.start && places.end) {
+    return places.start === places.end ? `Around ${places.start}` : `From ${places.start} to ${places.end}`;
+  }
+  return places.start ? `From ${places.start}` : `To ${places.end}`;
+}
+
+/**
+ * A day's label from its first start and last finish
+ */
+export function formatDayLabel(activities: SummaryActivity[], places: ActivityPlacesById): string | null {
+  const located = activities.filter(activity => places[String(activity.id)]);
+  if (located.length === 0) return null;
+
+  return formatRouteLabel({
+    start: places[String(located[0].id)].start,
+    end: places[String(located[located.length - 1].id)].end
+  });
+}
+
+/**
+ * Replace auto-generated names ("Morning Ride") with the route label ("From Calais to Saint-Omer")
+ */
+export function nameGenericActivities<T extends SummaryActivity>(activities: T[], places: ActivityPlacesById): T[] {
+  return activities.map(activity => {
+    const label = formatRouteLabel(places[String(activity.id)]);
+    return label && isGenericActivityName(activity.name) ? { ...activity, name: label } : activity;
+  });
+}
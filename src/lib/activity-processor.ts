@@ -1,8 +1,11 @@
 import { SummaryActivity } from '@/services/strava/api';
+import { StreamSet } from './strava-streams';
 import { decodePolyline } from './polyline';
+import { getSportType } from './activity-filter';
+import { ActivityOverrides, applyActivityOverrides, isExcludedFromStats } from './activity-overrides';
 
 // GeoJSON types
-interface GeoJSONFeature {
+export interface GeoJSONFeature {
   type: 'Feature';
   properties: {
     id?: number;
@@ -18,7 +21,7 @@ interface GeoJSONFeature {
   };
 }
 
-interface GeoJSONFeatureCollection {
+export interface GeoJSONFeatureCollection {
   type: 'FeatureCollection';
   features: GeoJSONFeature[];
 }
@@ -28,11 +31,17 @@ interface GeoJSONFeatureCollection {
  * 
  * @param activities List of activities from Strava API
  * @param startDate ISO date string for the beginning of the journey
+ * @param streams Optional activity streams keyed by activity id; their latlng stream
+ *   replaces the coarse summary polyline when present
+ * @param overrides Optional per-activity overrides; hidden activities are dropped and
+ *   the rest are renamed/reclassified before drawing
  * @returns GeoJSON FeatureCollection
  */
 export function processActivities(
   activities: SummaryActivity[], 
-  startDate: string
+  startDate: string,
+  streams: Record<number, StreamSet> = {},
+  overrides: ActivityOverrides = {}
 ): GeoJSONFeatureCollection {
   if (!activities || activities.length === 0) {
     return {
@@ -42,7 +51,7 @@ export function processActivities(
   }
   
   // Filter activities by startDate
-  const filteredActivities = activities.filter(activity => 
+  const filteredActivities = applyActivityOverrides(activities, overrides).filter(activity => 
     activity.start_date && new Date(activity.start_date) >= new Date(startDate)
   );
   
@@ -60,10 +69,11 @@ export function processActivities(
   
   // Process each activity
   sortedActivities
-    .filter(activity => !!activity.map?.summary_polyline)
+    .filter(activity => !!activity.map?.summary_polyline || !!getLatLngStream(activity, streams))
     .forEach(activity => {
-      // Decode the polyline into coordinate points
-      const decodedPoints = decodePolyline(activity.map?.summary_polyline || '');
+      // Prefer full-resolution stream geometry, else decode the summary polyline
+      const decodedPoints = getLatLngStream(activity, streams) ||
+        decodePolyline(activity.map?.summary_polyline || '');
       
       // Convert from [lat, lng] to [lng, lat] format for GeoJSON
       const coordinates = decodedPoints.map(([lat, lng]) => [lng, lat] as [number, number]);
@@ -80,13 +90,15 @@ export function processActivities(
         properties: {
           id: activity.id,
           name: activity.name,
+          description: activity.description,
           type: activity.type,
           date: activity.start_date,
           distance: activity.distance,
-          sport_type: activity.sport_type,
+          sport_type: getSportType(activity),
           start_date_local: activity.start_date_local,
           elapsed_time: activity.elapsed_time,
-          total_elevation_gain: activity.total_elevation_gain
+          total_elevation_gain: activity.total_elevation_gain,
+          excluded_from_stats: isExcludedFromStats(activity, overrides)
         },
         geometry: {
           type: 'LineString',
@@ -101,6 +113,21 @@ export function processActivities(
   };
 }
 
+/**
+ * Get the recorded latlng points of an activity, if its streams were loaded
+ */
+function getLatLngStream(
+  activity: SummaryActivity,
+  streams: Record<number, StreamSet>
+): [number, number][] | null {
+  const data = activity.id !== undefined ? streams[activity.id]?.latlng?.data : undefined;
+  if (!data || data.length === 0) {
+    return null;
+  }
+
+  return data.map(([lat, lng]) => [lat, lng] as [number, number]);
+}
+
 /**
  * Calculate the bounding box of all activities
  * Useful for setting the initial map view
@@ -159,16 +186,17 @@ export function calculateBounds(activities: SummaryActivity[]): [number, number,
 }
 
 /**
- * Groups activities by type
+ * Groups activities by sport type
  * @param activities List of activities
- * @returns Object with activity types as keys and counts as values
+ * @returns Object with sport types as keys and counts as values
  */
 export function groupActivitiesByType(activities: SummaryActivity[]): Record<string, number> {
   const result: Record<string, number> = {};
   
   activities.forEach(activity => {
-    if (activity.type) {
-      result[activity.type] = (result[activity.type] || 0) + 1;
+    const sportType = getSportType(activity);
+    if (sportType) {
+      result[sportType] = (result[sportType] || 0) + 1;
     }
   });
   
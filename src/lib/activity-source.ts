@@ -0,0 +1,72 @@
+import { SummaryActivity } from '@/services/strava/api';
+import { StreamSet } from './strava-streams';
+import { haversineDistance } from './geo';
+
+/**
+ * Somewhere journey activities come from: the synced Strava store, a folder of track files, ...
+ */
+export interface ActivitySource {
+  name: string;
+  // Bring the source up to date, e.g. sync with Strava; may throw a StravaError
+  refresh?(after: number): Promise<void>;
+  // When the source was last refreshed, for sources that track it
+  lastRefreshedAt?(): Promise<string | null>;
+  // Activities starting at or after `after` (epoch seconds), oldest first
+  getActivities(after: number): Promise<SummaryActivity[]>;
+  // Streams for whichever of these activities belong to the source, keyed by activity id
+  getStreams(activities: SummaryActivity[]): Promise<Record<number, StreamSet>>;
+}
+
+// Activities from different sources starting this close together...
+const DUPLICATE_START_SECONDS = 10 * 60;
+// ...and this close to each other are the same ride recorded twice
+const DUPLICATE_START_METERS = 1000;
+
+/**
+ * Strava activities have positive ids; activities from files use negative ones
+ */
+export function isStravaActivity(activity: SummaryActivity): boolean {
+  return activity.id !== undefined && activity.id > 0;
+}
+
+function startTime(activity: SummaryActivity): number {
+  return new Date(activity.start_date || 0).getTime() / 1000;
+}
+
+/**
+ * Whether two activities are the same recording, e.g. a GPX file that was also uploaded to Strava
+ */
+export function isDuplicateActivity(a: SummaryActivity, b: SummaryActivity): boolean {
+  if (a.id !== undefined && a.id === b.id) {
+    return true;
+  }
+
+  if (Math.abs(startTime(a) - startTime(b)) > DUPLICATE_START_SECONDS) {
+    return false;
+  }
+
+  // Without start points the start time alone has to do
+  if (a.start_latlng?.length !== 2 || b.start_latlng?.length !== 2) {
+    return true;
+  }
+
+  return haversineDistance(a.start_latlng as [number, number], b.start_latlng as [number, number]) <= DUPLICATE_START_METERS;
+}
+
+/**
+ * Merge the activities of several sources, oldest first
+ * Sources are given in priority order; a duplicate of an activity already taken is dropped
+ */
+export function mergeSourceActivities(sources: SummaryActivity[][]): SummaryActivity[] {
+  const merged: SummaryActivity[] = [];
+
+  sources.forEach(activities => {
+    activities.forEach(activity => {
+      if (!merged.some(existing => isDuplicateActivity(existing, activity))) {
+        merged.push(activity);
+      }
+    });
+  });
+
+  return merged.sort((a, b) => startTime(a) - startTime(b));
+}
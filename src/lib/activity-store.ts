@@ -0,0 +1,147 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { SummaryActivity } from '@/services/strava/api';
+import { dataPath } from './data-directory';
+
+/**
+ * Shape of the JSON file backing the activity store
+ */
+export interface ActivityStoreState {
+  version: number;
+  // Epoch seconds from which the store holds a complete copy of the athlete's activities
+  syncFrom: number | null;
+  // Epoch seconds of the newest activity start date seen so far
+  cursor: number | null;
+  lastSyncAt: string | null;
+  lastFullSyncAt: string | null;
+  activities: Record<string, SummaryActivity>;
+}
+
+// Version 1 stores only held rides; version 2 keeps every activity so journeys can filter
+const STORE_VERSION = 2;
+
+function emptyState(): ActivityStoreState {
+  return {
+    version: STORE_VERSION,
+    syncFrom: null,
+    cursor: null,
+    lastSyncAt: null,
+    lastFullSyncAt: null,
+    activities: {}
+  };
+}
+
+/**
+ * Converts an activity start date to epoch seconds
+ */
+export function activityTimestamp(activity: SummaryActivity): number {
+  return Math.floor(new Date(activity.start_date || 0).getTime() / 1000);
+}
+
+/**
+ * File-backed store of every synced Strava activity plus the sync cursor
+ */
+export class ActivityStore {
+  private filePath: string;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string = dataPath('strava', 'activities.json')) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Read the store from disk, returning an empty store if none exists yet
+   */
+  async read(): Promise<ActivityStoreState> {
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      const state = JSON.parse(contents) as ActivityStoreState;
+
+      if (state.version !== STORE_VERSION) {
+        console.warn(`Ignoring activity store with unsupported version ${state.version}`);
+        return emptyState();
+      }
+
+      return state;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return emptyState();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get stored activities, oldest first
+   * @param after Optional epoch seconds; only activities starting at or after this are returned
+   */
+  async getActivities(after?: number): Promise<SummaryActivity[]> {
+    const state = await this.read();
+
+    return Object.values(state.activities)
+      .filter(activity => after === undefined || activityTimestamp(activity) >= after)
+      .sort((a, b) => activityTimestamp(a) - activityTimestamp(b));
+  }
+
+  /**
+   * Apply a change to the stored state and write it back to disk
+   * Updates are serialised so concurrent callers never overwrite each other
+   */
+  async update(mutate: (state: ActivityStoreState) => void): Promise<ActivityStoreState> {
+    const next = this.writeQueue.then(async () => {
+      const state = await this.read();
+      mutate(state);
+      await this.write(state);
+      return state;
+    });
+
+    // Keep the queue alive even if this update fails
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Insert or replace activities by id
+   */
+  async upsert(activities: SummaryActivity[]): Promise<void> {
+    await this.update(state => {
+      activities.forEach(activity => mergeActivity(state, activity));
+    });
+  }
+
+  /**
+   * Remove activities by id
+   */
+  async remove(ids: Array<number | string>): Promise<void> {
+    await this.update(state => {
+      ids.forEach(id => {
+        delete state.activities[String(id)];
+      });
+    });
+  }
+
+  private async write(state: ActivityStoreState): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+
+    // Write to a temporary file first so a crash never leaves a half-written store
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(state, null, 2), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Merge a single activity into the state, advancing the cursor if it is newer
+ */
+export function mergeActivity(state: ActivityStoreState, activity: SummaryActivity): void {
+  if (activity.id === undefined) {
+    return;
+  }
+
+  state.activities[String(activity.id)] = activity;
+
+  const timestamp = activityTimestamp(activity);
+  if (state.cursor === null || timestamp > state.cursor) {
+    state.cursor = timestamp;
+  }
+}
@@ -0,0 +1,103 @@
+import { ActivityStore, ActivityStoreState, activityTimestamp, mergeActivity } from './activity-store';
+import { StravaClient } from './strava-client';
+
+// How often the page may trigger a sync against Strava
+const SYNC_INTERVAL_MS = Number(process.env.STRAVA_SYNC_INTERVAL_MINUTES || 15) * 60 * 1000;
+
+// How often to re-fetch the whole range so older edits and deletions are picked up
+const FULL_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Incremental syncs re-fetch this far behind the cursor to catch recent edits
+const SYNC_LOOKBACK_SECONDS = 2 * 24 * 60 * 60;
+
+export interface SyncResult {
+  mode: 'full' | 'incremental';
+  fetched: number;
+  removed: number;
+}
+
+/**
+ * Whether the whole range needs re-fetching rather than just newer activities
+ */
+export function needsFullSync(state: ActivityStoreState, after: number, now: number = Date.now()): boolean {
+  if (state.syncFrom === null || after < state.syncFrom) {
+    return true;
+  }
+
+  if (!state.lastFullSyncAt) {
+    return true;
+  }
+
+  return now - new Date(state.lastFullSyncAt).getTime() >= FULL_SYNC_INTERVAL_MS;
+}
+
+/**
+ * Whether the store is old enough that a sync should be attempted
+ */
+export function isSyncDue(state: ActivityStoreState, after: number, now: number = Date.now()): boolean {
+  if (needsFullSync(state, after, now) || !state.lastSyncAt) {
+    return true;
+  }
+
+  return now - new Date(state.lastSyncAt).getTime() >= SYNC_INTERVAL_MS;
+}
+
+/**
+ * Bring the store up to date with Strava
+ *
+ * Incremental syncs only ask Strava for activities newer than the stored cursor
+ * (minus a short lookback), while periodic full syncs re-fetch everything after
+ * `after`. In both cases stored activities inside the fetched window that Strava
+ * no longer returns are treated as deleted.
+ *
+ * @param store The activity store to update
+ * @param client Authenticated Strava client
+ * @param after Epoch seconds from which the store should be complete
+ * @param options Set `full` to force a full re-fetch
+ */
+export async function syncActivities(
+  store: ActivityStore,
+  client: StravaClient,
+  after: number,
+  options: { full?: boolean } = {}
+): Promise<SyncResult> {
+  const current = await store.read();
+  const full = options.full || needsFullSync(current, after);
+
+  const since = full || current.cursor === null
+    ? after
+    : Math.max(after, current.cursor - SYNC_LOOKBACK_SECONDS);
+
+  // Strava's `after` is exclusive, so step back a second to include an activity starting exactly at `since`
+  const fetched = await client.getAllActivitiesAfter(since - 1);
+  const fetchedIds = new Set(fetched.map(activity => String(activity.id)));
+  let removed = 0;
+
+  await store.update(state => {
+    // Anything in the fetched window that Strava didn't return has been deleted
+    Object.entries(state.activities).forEach(([id, activity]) => {
+      if (activityTimestamp(activity) >= since && !fetchedIds.has(id)) {
+        delete state.activities[id];
+        removed++;
+      }
+    });
+
+    fetched.forEach(activity => mergeActivity(state, activity));
+
+    const now = new Date().toISOString();
+    state.lastSyncAt = now;
+
+    if (full) {
+      state.lastFullSyncAt = now;
+      state.syncFrom = state.syncFrom === null ? after : Math.min(state.syncFrom, after);
+    }
+  });
+
+  console.log(`Synced ${fetched.length} activities from Strava (${full ? 'full' : 'incremental'}, ${removed} removed)`);
+
+  return {
+    mode: full ? 'full' : 'incremental',
+    fetched: fetched.length,
+    removed
+  };
+}
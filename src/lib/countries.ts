@@ -0,0 +1,181 @@
+import { feature } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import countries50m from 'world-atlas/countries-50m.json';
+import { SummaryActivity } from '@/services/strava/api';
+import { StreamSet } from './strava-streams';
+import { BoundedPolygon, haversineDistance, isInPolygon, thinPath, toBoundedPolygons } from './geo';
+import { decodePolyline } from './polyline';
+
+/**
+ * Time and distance spent in one country
+ */
+export interface CountryVisit {
+  name: string;
+  // Local dates, YYYY-MM-DD
+  firstDate: string;
+  lastDate: string;
+  // Meters ridden (or walked) inside the country
+  distance: number;
+  // Days with an activity in the country, plus days without geometry while there
+  days: number;
+}
+
+/**
+ * Entering a country, by road or off a ferry or plane
+ */
+export interface BorderCrossing {
+  // Null for the first country of the journey
+  from: string | null;
+  to: string;
+  // Local date, YYYY-MM-DD
+  date: string;
+  // First point recorded in the new country
+  location: [number, number];
+}
+
+export interface CountrySummary {
+  // In the order they were first visited
+  countries: CountryVisit[];
+  crossings: BorderCrossing[];
+}
+
+interface CountryShape {
+  name: string;
+  polygons: BoundedPolygon[];
+}
+
+// Routes are sampled at this spacing; finer gains nothing at the boundaries' scale
+const SAMPLE_SPACING_METERS = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let countryShapes: CountryShape[] | null = null;
+
+/**
+ * Natural Earth 1:50m country boundaries from the bundled world atlas, decoded on first use
+ */
+function getCountryShapes(): CountryShape[] {
+  if (!countryShapes) {
+    const topology = countries50m as unknown as Topology<{ countries: GeometryCollection<{ name: string }> }>;
+    const { features } = feature(topology, topology.objects.countries);
+
+    countryShapes = features.flatMap(({ geometry, properties }) =>
+      geometry && (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon')
+        ? [{ name: properties.name, polygons: toBoundedPolygons(geometry) }]
+        : []
+    );
+  }
+
+  return countryShapes;
+}
+
+function isInCountry(point: [number, number], country: CountryShape): boolean {
+  return country.polygons.some(polygon => isInPolygon(point, polygon));
+}
+
+/**
+ * The country a point is in, or null at sea
+ * @param hint A country to test first; consecutive route points are nearly always in the same one
+ */
+export function countryAt(point: [number, number], hint?: string | null): string | null {
+  const shapes = getCountryShapes();
+  const hinted = hint ? shapes.find(country => country.name === hint) : undefined;
+  if (hinted && isInCountry(point, hinted)) {
+    return hinted.name;
+  }
+
+  return shapes.find(country => country !== hinted && isInCountry(point, country))?.name ?? null;
+}
+
+function localDate(activity: SummaryActivity): string {
+  return (activity.start_date_local || activity.start_date || '').slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(date).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Work out the countries a journey passed through from its routes
+ *
+ * Each activity's route (its latlng stream, or the summary polyline) is sampled and every
+ * sample placed in a country; distance between samples counts towards the country the
+ * stretch starts in. A crossing is recorded whenever the country changes, including across
+ * a ferry or flight between activities, and dated by the activity it was recorded in.
+ * Days without a located activity (rest days, turbo sessions) count for the country we were last in.
+ *
+ * @param activities Published activities, oldest first or in any order
+ * @param streams Published streams keyed by activity id
+ */
+export function summarizeCountries(activities: SummaryActivity[], streams: Record<number, StreamSet> = {}): CountrySummary {
+  const sorted = activities
+    .filter(activity => activity.start_date)
+    .sort((a, b) => (a.start_date || '').localeCompare(b.start_date || ''));
+
+  const visits = new Map<string, { visit: CountryVisit; dates: Set<string> }>();
+  const crossings: BorderCrossing[] = [];
+  let current: string | null = null;
+
+  const recordVisit = (name: string, date: string) => {
+    const entry = visits.get(name) || { visit: { name, firstDate: date, lastDate: date, distance: 0, days: 0 }, dates: new Set<string>() };
+    entry.visit.lastDate = date > entry.visit.lastDate ? date : entry.visit.lastDate;
+    entry.dates.add(date);
+    visits.set(name, entry);
+    return entry.visit;
+  };
+
+  sorted.forEach(activity => {
+    const date = localDate(activity);
+    const streamPoints = activity.id !== undefined ? streams[activity.id]?.latlng?.data as [number, number][] | undefined : undefined;
+    const points = thinPath(
+      streamPoints && streamPoints.length > 0 ? streamPoints : decodePolyline(activity.map?.summary_polyline || ''),
+      SAMPLE_SPACING_METERS
+    );
+
+    let previous: { point: [number, number]; country: string | null } | null = null;
+
+    points.forEach(point => {
+      const country = countryAt(point, current);
+
+      if (country && country !== current) {
+        crossings.push({ from: current, to: country, date, location: point });
+        current = country;
+      }
+      if (country) {
+        recordVisit(country, date);
+      }
+      if (previous?.country) {
+        recordVisit(previous.country, date).distance += haversineDistance(previous.point, point);
+      }
+
+      previous = { point, country };
+    });
+
+    // No route (an indoor ride, a manual entry): the day still counts for where we are
+    if (points.length === 0 && current) {
+      recordVisit(current, date);
+    }
+  });
+
+  // Days with no activities at all count for the country we were in at the time
+  const lastDate = sorted.length > 0 ? localDate(sorted[sorted.length - 1]) : '';
+  crossings.forEach((crossing, i) => {
+    const until = crossings[i + 1]?.date ?? addDays(lastDate, 1);
+    const stay = visits.get(crossing.to);
+    if (!stay) return;
+
+    for (let date = addDays(crossing.date, 1); date < until; date = addDays(date, 1)) {
+      stay.dates.add(date);
+    }
+  });
+
+  const entries = [...visits.values()];
+  entries.forEach(({ visit, dates }) => {
+    visit.days = dates.size;
+  });
+
+  return {
+    countries: entries.map(({ visit }) => visit),
+    crossings
+  };
+}
@@ -0,0 +1,14 @@
+import { join } from 'path';
+
+/**
+ * Root directory for locally persisted site data (synced activities, tokens, config)
+ * Defaults to `_data` next to `_posts`, overridable with the DATA_DIR env var
+ */
+export const dataDirectory = process.env.DATA_DIR || join(process.cwd(), '_data');
+
+/**
+ * Resolves a path inside the data directory
+ */
+export function dataPath(...segments: string[]): string {
+  return join(dataDirectory, ...segments);
+}
@@ -0,0 +1,198 @@
+import { SummaryActivity } from '@/services/strava/api';
+import { StreamSet } from './strava-streams';
+import { haversineDistance } from './geo';
+
+/**
+ * One point of a profile
+ */
+export interface ElevationSample {
+  // Meters from the start of the profile
+  distance: number;
+  elevation: number;
+  location?: [number, number];
+}
+
+/**
+ * One activity's stretch of a profile
+ * Activities without an altitude stream only have their summary's lowest and highest points
+ */
+export interface ElevationSection {
+  activityId?: number;
+  // Meters from the start of the profile
+  start: number;
+  end: number;
+  samples: ElevationSample[];
+  low?: number;
+  high?: number;
+}
+
+/**
+ * Elevation along one activity, or along a whole journey with its activities end to end
+ */
+export interface ElevationProfile {
+  sections: ElevationSection[];
+  // Meters
+  distance: number;
+  // Total climbing, from the activity summaries so it matches the stats
+  gain: number;
+  // Lowest and highest points across all sections
+  min: number;
+  max: number;
+}
+
+// More samples than the chart has pixels gains nothing, and streams can have tens of thousands
+const MAX_SAMPLES = 600;
+
+/**
+ * Distance along the activity for each altitude sample, from the distance stream or
+ * failing that the latlng stream. Undefined when neither lines up with the altitudes.
+ */
+function alongDistances(streams: StreamSet, count: number): number[] | undefined {
+  const distance = streams.distance?.data;
+  if (distance?.length === count) {
+    return distance;
+  }
+
+  const points = streams.latlng?.data as [number, number][] | undefined;
+  if (points?.length === count) {
+    const along = [0];
+    for (let i = 1; i < points.length; i++) {
+      along.push(along[i - 1] + haversineDistance(points[i - 1], points[i]));
+    }
+    return along;
+  }
+
+  return undefined;
+}
+
+/**
+ * An activity's samples, measured from its own (published) start
+ */
+function activitySamples(streams: StreamSet | undefined): ElevationSample[] {
+  const altitude = streams?.altitude?.data;
+  if (!streams || !altitude || altitude.length === 0) {
+    return [];
+  }
+
+  const along = alongDistances(streams, altitude.length);
+  if (!along) {
+    return [];
+  }
+
+  // Privacy trimming can drop the first points, so the distance stream may not start at zero
+  const points = streams.latlng?.data as [number, number][] | undefined;
+  const located = points?.length === altitude.length;
+
+  return altitude.map((elevation, i) => ({
+    distance: along[i] - along[0],
+    elevation,
+    location: located ? points![i] : undefined
+  }));
+}
+
+/**
+ * Keep samples at least `spacing` apart, plus the first and last
+ */
+function thinSamples(samples: ElevationSample[], spacing: number): ElevationSample[] {
+  return samples.reduce<ElevationSample[]>((kept, sample, i) => {
+    const last = kept[kept.length - 1];
+    if (!last || i === samples.length - 1 || sample.distance - last.distance >= spacing) {
+      kept.push(sample);
+    }
+    return kept;
+  }, []);
+}
+
+/**
+ * Build an elevation profile from the altitude and distance streams
+ *
+ * Activities are laid end to end in the order they were recorded; gaps between them
+ * (a train, a night's sleep) take up no distance. Activities without streams fall back to
+ * the elev_low/elev_high range from their summary, spread over their distance.
+ *
+ * @returns Null when none of the activities has any elevation data
+ */
+export function buildElevationProfile(
+  activities: SummaryActivity[],
+  streams: Record<number, StreamSet> = {},
+  maxSamples: number = MAX_SAMPLES
+): ElevationProfile | null {
+  const sorted = [...activities].sort((a, b) => (a.start_date || '').localeCompare(b.start_date || ''));
+
+  const measured = sorted.map(activity => {
+    const samples = activitySamples(activity.id !== undefined ? streams[activity.id] : undefined);
+    const length = samples.length > 0 ? samples[samples.length - 1].distance : activity.distance || 0;
+    return { activity, samples, length };
+  });
+
+  const distance = measured.reduce((total, { length }) => total + length, 0);
+  const spacing = distance / maxSamples;
+
+  let start = 0;
+  const sections: ElevationSection[] = [];
+
+  measured.forEach(({ activity, samples, length }) => {
+    const hasRange = activity.elev_low !== undefined && activity.elev_high !== undefined;
+
+    if (samples.length > 0 || (hasRange && length > 0)) {
+      sections.push({
+        activityId: activity.id,
+        start,
+        end: start + length,
+        samples: thinSamples(samples, spacing).map(sample => ({ ...sample, distance: start + sample.distance })),
+        low: samples.length === 0 ? activity.elev_low : undefined,
+        high: samples.length === 0 ? activity.elev_high : undefined
+      });
+    }
+
+    start += length;
+  });
+
+  const elevations = sections.flatMap(section =>
+    section.samples.length > 0 ? section.samples.map(sample => sample.elevation) : [section.low!, section.high!]
+  );
+
+  if (elevations.length === 0) {
+    return null;
+  }
+
+  return {
+    sections,
+    distance,
+    gain: sorted.reduce((total, activity) => total + (activity.total_elevation_gain || 0), 0),
+    min: Math.min(...elevations),
+    max: Math.max(...elevations)
+  };
+}
+
+/**
+ * The section covering a distance along the profile
+ */
+export function sectionAt(profile: ElevationProfile, distance: number): ElevationSection | undefined {
+  return profile.sections.find(section => distance >= section.start && distance <= section.end);
+}
+
+/**
+ * The sample nearest to a distance along the profile, within the section covering it
+ */
+export function sampleAt(profile: ElevationProfile, distance: number): ElevationSample | null {
+  const samples = sectionAt(profile, distance)?.samples;
+  if (!samples || samples.length === 0) {
+    return null;
+  }
+
+  // Samples are in distance order, so binary search for the first one at or past the distance
+  let low = 0;
+  let high = samples.length - 1;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (samples[middle].distance < distance) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  const previous = samples[Math.max(0, low - 1)];
+  return distance - previous.distance < samples[low].distance - distance ? previous : samples[low];
+}
@@ -0,0 +1,116 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { SummaryActivity } from '@/services/strava/api';
+import { StreamSet } from './strava-streams';
+import { ActivitySource } from './activity-source';
+import { activityTimestamp } from './activity-store';
+import { dataPath } from './data-directory';
+import { parseGpx, parseTcx, trackToActivity } from './track-parser';
+
+interface ParsedTrackFile {
+  modifiedAt: number;
+  activity: SummaryActivity;
+  streams: StreamSet;
+}
+
+// Parsed files by path, re-parsed only when the file changes
+const parsedFiles = new Map<string, ParsedTrackFile>();
+
+const TRACK_FILE = /\.(gpx|tcx)$/i;
+
+/**
+ * Stable negative id for a track file, so it never clashes with a Strava id
+ */
+export function fileActivityId(relativePath: string): number {
+  // 32-bit FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < relativePath.length; i++) {
+    hash ^= relativePath.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return -(hash + 1);
+}
+
+/**
+ * Activities read from .gpx and .tcx files in a folder (and its subfolders), e.g. days never uploaded to Strava
+ */
+export class FileActivitySource implements ActivitySource {
+  name = 'files';
+  private directory: string;
+
+  constructor(directory: string = dataPath('tracks')) {
+    this.directory = directory;
+  }
+
+  private async parseFile(relativePath: string): Promise<ParsedTrackFile | null> {
+    const filePath = join(this.directory, relativePath);
+    const { mtimeMs } = await fs.stat(filePath);
+
+    const cached = parsedFiles.get(filePath);
+    if (cached && cached.modifiedAt === mtimeMs) {
+      return cached;
+    }
+
+    const contents = await fs.readFile(filePath, 'utf8');
+    const track = /\.tcx$/i.test(relativePath) ? parseTcx(contents) : parseGpx(contents);
+
+    if (track.points.length === 0 || !track.points[0].time) {
+      console.warn(`Skipping ${relativePath}: no timestamped track points`);
+      return null;
+    }
+
+    const parsed = {
+      modifiedAt: mtimeMs,
+      ...trackToActivity(track, fileActivityId(relativePath), relativePath)
+    };
+    parsedFiles.set(filePath, parsed);
+
+    return parsed;
+  }
+
+  private async readAll(): Promise<ParsedTrackFile[]> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.directory, { recursive: true })).filter(file => TRACK_FILE.test(file));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const parsed = await Promise.all(files.map(async file => {
+      try {
+        return await this.parseFile(file);
+      } catch (error) {
+        console.warn(`Skipping ${file}: could not parse track file`, error);
+        return null;
+      }
+    }));
+
+    return parsed.filter((file): file is ParsedTrackFile => file !== null);
+  }
+
+  async getActivities(after: number): Promise<SummaryActivity[]> {
+    return (await this.readAll())
+      .map(file => file.activity)
+      .filter(activity => activityTimestamp(activity) >= after)
+      .sort((a, b) => activityTimestamp(a) - activityTimestamp(b));
+  }
+
+  /**
+   * Track files are local, so their streams are always available
+   */
+  async getStreams(activities: SummaryActivity[]): Promise<Record<number, StreamSet>> {
+    const ids = new Set(activities.map(activity => activity.id));
+    const streams: Record<number, StreamSet> = {};
+
+    (await this.readAll()).forEach(file => {
+      if (ids.has(file.activity.id)) {
+        streams[file.activity.id!] = file.streams;
+      }
+    });
+
+    return streams;
+  }
+}
@@ -0,0 +1,237 @@
+import { Track, TrackPoint } from './track-parser';
+
+/**
+ * A track decoded from a FIT file, plus the device's UTC offset when it recorded one
+ */
+export interface FitTrack extends Track {
+  // Seconds to add to UTC for the local time the activity was recorded in
+  utcOffset?: number;
+}
+
+interface FieldDefinition {
+  number: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalNumber: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  // Developer fields are skipped, so only their total size matters
+  developerSize: number;
+}
+
+type FitFields = Record<number, number | string>;
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_SECONDS = 631065600;
+
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+// Global message numbers
+const SESSION = 18;
+const RECORD = 20;
+const ACTIVITY = 34;
+
+// Field numbers
+const TIMESTAMP = 253;
+const RECORD_POSITION_LAT = 0;
+const RECORD_POSITION_LONG = 1;
+const RECORD_ALTITUDE = 2;
+const RECORD_ENHANCED_ALTITUDE = 78;
+const SESSION_SPORT = 5;
+const SESSION_SUB_SPORT = 6;
+const ACTIVITY_LOCAL_TIMESTAMP = 5;
+
+// FIT sport / sub sport numbers, named as in track-parser's type mapping
+const FIT_SPORTS: Record<number, string> = {
+  1: 'running',
+  2: 'cycling',
+  11: 'walking',
+  17: 'hiking',
+  21: 'e_bike_fitness'
+};
+const FIT_CYCLING_SUB_SPORTS: Record<number, string> = {
+  8: 'mountain_biking',
+  28: 'e_bike_fitness',
+  46: 'gravel_cycling'
+};
+
+/**
+ * Read one field value, or undefined for FIT's "invalid" marker and for arrays
+ */
+function readValue(data: Buffer, offset: number, field: FieldDefinition, littleEndian: boolean): number | string | undefined {
+  const baseType = field.baseType & 0x1f;
+
+  if (baseType === 0x07) {
+    const text = data.toString('utf8', offset, offset + field.size);
+    const end = text.indexOf('\0');
+    return (end < 0 ? text : text.slice(0, end)) || undefined;
+  }
+
+  const read = (size: number, value: () => number, invalid: number) => {
+    if (field.size !== size) return undefined;
+    const result = value();
+    return result === invalid || Number.isNaN(result) ? undefined : result;
+  };
+
+  switch (baseType) {
+    case 0x00: // enum
+    case 0x02: // uint8
+    case 0x0d: // byte
+      return read(1, () => data.readUInt8(offset), 0xff);
+    case 0x0a: // uint8z
+      return read(1, () => data.readUInt8(offset), 0);
+    case 0x01: // sint8
+      return read(1, () => data.readInt8(offset), 0x7f);
+    case 0x03:
+      return read(2, () => littleEndian ? data.readInt16LE(offset) : data.readInt16BE(offset), 0x7fff);
+    case 0x04:
+      return read(2, () => littleEndian ? data.readUInt16LE(offset) : data.readUInt16BE(offset), 0xffff);
+    case 0x0b: // uint16z
+      return read(2, () => littleEndian ? data.readUInt16LE(offset) : data.readUInt16BE(offset), 0);
+    case 0x05:
+      return read(4, () => littleEndian ? data.readInt32LE(offset) : data.readInt32BE(offset), 0x7fffffff);
+    case 0x06:
+      return read(4, () => littleEndian ? data.readUInt32LE(offset) : data.readUInt32BE(offset), 0xffffffff);
+    case 0x0c: // uint32z
+      return read(4, () => littleEndian ? data.readUInt32LE(offset) : data.readUInt32BE(offset), 0);
+    case 0x08:
+      return read(4, () => littleEndian ? data.readFloatLE(offset) : data.readFloatBE(offset), NaN);
+    case 0x09:
+      return read(8, () => littleEndian ? data.readDoubleLE(offset) : data.readDoubleBE(offset), NaN);
+    default:
+      // 64-bit integers aren't used by any field we read
+      return undefined;
+  }
+}
+
+/**
+ * Decode every message in a FIT file (including chained files), keyed by global message number
+ */
+export function decodeFit(data: Buffer): Array<{ globalNumber: number; fields: FitFields }> {
+  const messages: Array<{ globalNumber: number; fields: FitFields }> = [];
+  let fileStart = 0;
+
+  while (fileStart + 12 <= data.length) {
+    const headerSize = data.readUInt8(fileStart);
+    const dataSize = data.readUInt32LE(fileStart + 4);
+    if (data.toString('ascii', fileStart + 8, fileStart + 12) !== '.FIT') {
+      if (fileStart === 0) throw new Error('Not a FIT file');
+      break;
+    }
+
+    const end = Math.min(fileStart + headerSize + dataSize, data.length);
+    const definitions = new Map<number, MessageDefinition>();
+    let lastTimestamp = 0;
+    let offset = fileStart + headerSize;
+
+    while (offset < end) {
+      const header = data.readUInt8(offset++);
+      const compressedTimestamp = (header & 0x80) !== 0;
+
+      // Definition message: describes the layout of later data messages with this local type
+      if (!compressedTimestamp && (header & 0x40) !== 0) {
+        const littleEndian = data.readUInt8(offset + 1) === 0;
+        const globalNumber = littleEndian ? data.readUInt16LE(offset + 2) : data.readUInt16BE(offset + 2);
+        const fieldCount = data.readUInt8(offset + 4);
+        offset += 5;
+
+        const fields: FieldDefinition[] = [];
+        for (let i = 0; i < fieldCount; i++, offset += 3) {
+          fields.push({ number: data.readUInt8(offset), size: data.readUInt8(offset + 1), baseType: data.readUInt8(offset + 2) });
+        }
+
+        let developerSize = 0;
+        if ((header & 0x20) !== 0) {
+          const developerCount = data.readUInt8(offset++);
+          for (let i = 0; i < developerCount; i++, offset += 3) {
+            developerSize += data.readUInt8(offset + 1);
+          }
+        }
+
+        definitions.set(header & 0x0f, { globalNumber, littleEndian, fields, developerSize });
+        continue;
+      }
+
+      const localType = compressedTimestamp ? (header >> 5) & 0x03 : header & 0x0f;
+      const definition = definitions.get(localType);
+      if (!definition) {
+        throw new Error(`Corrupt FIT file: data message for undefined local type ${localType}`);
+      }
+
+      const fields: FitFields = {};
+      definition.fields.forEach(field => {
+        const value = readValue(data, offset, field, definition.littleEndian);
+        if (value !== undefined) fields[field.number] = value;
+        offset += field.size;
+      });
+      offset += definition.developerSize;
+
+      if (compressedTimestamp) {
+        // The header carries the low 5 bits of the timestamp, relative to the last full one
+        const timeOffset = header & 0x1f;
+        let timestamp = (lastTimestamp & ~0x1f) + timeOffset;
+        if (timeOffset < (lastTimestamp & 0x1f)) timestamp += 0x20;
+        fields[TIMESTAMP] = timestamp;
+        lastTimestamp = timestamp;
+      } else if (typeof fields[TIMESTAMP] === 'number') {
+        lastTimestamp = fields[TIMESTAMP] as number;
+      }
+
+      messages.push({ globalNumber: definition.globalNumber, fields });
+    }
+
+    // Skip the 2-byte file CRC to any chained file
+    fileStart = fileStart + headerSize + dataSize + 2;
+  }
+
+  return messages;
+}
+
+function fitDate(timestamp: number): Date {
+  return new Date((timestamp + FIT_EPOCH_SECONDS) * 1000);
+}
+
+/**
+ * Parse a FIT activity file from a GPS device; points without a position are skipped
+ */
+export function parseFit(data: Buffer): FitTrack {
+  const messages = decodeFit(data);
+  const points: TrackPoint[] = [];
+  let type: string | undefined;
+  let utcOffset: number | undefined;
+
+  messages.forEach(({ globalNumber, fields }) => {
+    if (globalNumber === RECORD) {
+      const latitude = fields[RECORD_POSITION_LAT];
+      const longitude = fields[RECORD_POSITION_LONG];
+      if (typeof latitude !== 'number' || typeof longitude !== 'number') return;
+
+      // Altitudes are stored in 1/5 m with a 500 m offset
+      const altitude = fields[RECORD_ENHANCED_ALTITUDE] ?? fields[RECORD_ALTITUDE];
+      const timestamp = fields[TIMESTAMP];
+
+      points.push({
+        latitude: latitude * SEMICIRCLES_TO_DEGREES,
+        longitude: longitude * SEMICIRCLES_TO_DEGREES,
+        elevation: typeof altitude === 'number' ? altitude / 5 - 500 : undefined,
+        time: typeof timestamp === 'number' ? fitDate(timestamp) : undefined
+      });
+    } else if (globalNumber === SESSION && !type) {
+      const sport = fields[SESSION_SPORT] as number | undefined;
+      const subSport = fields[SESSION_SUB_SPORT] as number | undefined;
+      type = (sport === 2 && subSport !== undefined && FIT_CYCLING_SUB_SPORTS[subSport]) ||
+        (sport !== undefined ? FIT_SPORTS[sport] : undefined);
+    } else if (globalNumber === ACTIVITY) {
+      const timestamp = fields[TIMESTAMP];
+      const localTimestamp = fields[ACTIVITY_LOCAL_TIMESTAMP];
+      if (typeof timestamp === 'number' && typeof localTimestamp === 'number') {
+        utcOffset = localTimestamp - timestamp;
+      }
+    }
+  });
+
+  return { type, points, utcOffset };
+}
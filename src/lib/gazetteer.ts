@@ -0,0 +1,57 @@
+import cities from 'all-the-cities';
+import { haversineDistance } from './geo';
+
+/**
+ * A populated place from the bundled offline gazetteer (GeoNames cities of 1000+ people)
+ */
+export interface Place {
+  name: string;
+  // ISO 3166-1 alpha-2
+  country: string;
+  population: number;
+  latitude: number;
+  longitude: number;
+}
+
+export interface NearestPlaceOptions {
+  // Ignore places smaller than this
+  minPopulation?: number;
+  // Meters; beyond this there is no nearest place
+  maxDistance?: number;
+}
+
+/**
+ * Find the closest place to a point
+ * @returns The place and its distance in meters, or null if nothing qualifies
+ */
+export function nearestPlace(
+  [latitude, longitude]: [number, number],
+  { minPopulation = 0, maxDistance = Infinity }: NearestPlaceOptions = {}
+): { place: Place; distance: number } | null {
+  let nearest: { place: Place; distance: number } | null = null;
+
+  for (const city of cities) {
+    if (city.population < minPopulation) continue;
+
+    const [cityLongitude, cityLatitude] = city.loc.coordinates;
+
+    // Cheap latitude check before the full distance calculation
+    if (nearest && Math.abs(cityLatitude - latitude) * 111320 > nearest.distance) continue;
+
+    const distance = haversineDistance([latitude, longitude], [cityLatitude, cityLongitude]);
+    if (distance <= maxDistance && (!nearest || distance < nearest.distance)) {
+      nearest = {
+        place: {
+          name: city.name,
+          country: city.country,
+          population: city.population,
+          latitude: cityLatitude,
+          longitude: cityLongitude
+        },
+        distance
+      };
+    }
+  }
+
+  return nearest;
+}
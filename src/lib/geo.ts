@@ -0,0 +1,106 @@
+import type { MultiPolygon, Polygon, Position } from 'geojson';
+
+/**
+ * Small geodesy helpers shared by the route processing code
+ * All points are [latitude, longitude] pairs in degrees, matching decodePolyline
+ */
+
+const EARTH_RADIUS_METERS = 6371008.8;
+
+function toRadians(degrees: number): number {
+  return degrees * Math.PI / 180;
+}
+
+/**
+ * Great-circle distance between two points
+ * @returns Distance in meters
+ */
+export function haversineDistance([lat1, lng1]: [number, number], [lat2, lng2]: [number, number]): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Total length of a path
+ * @returns Distance in meters
+ */
+export function pathDistance(points: [number, number][]): number {
+  let total = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    total += haversineDistance(points[i - 1], points[i]);
+  }
+
+  return total;
+}
+
+/**
+ * Thin a path out so consecutive points are at least `spacing` meters apart, keeping both ends
+ */
+export function thinPath(points: [number, number][], spacing: number): [number, number][] {
+  if (points.length <= 2) return points;
+
+  const thinned = [points[0]];
+  points.slice(1, -1).forEach(point => {
+    if (haversineDistance(thinned[thinned.length - 1], point) >= spacing) {
+      thinned.push(point);
+    }
+  });
+  thinned.push(points[points.length - 1]);
+
+  return thinned;
+}
+
+/**
+ * A polygon with its bounding box, for quick point-in-polygon tests
+ */
+export interface BoundedPolygon {
+  // [minLng, minLat, maxLng, maxLat]
+  bbox: [number, number, number, number];
+  // Outer ring first, then any holes, as GeoJSON [lng, lat] positions
+  rings: Position[][];
+}
+
+/**
+ * Split a GeoJSON (multi)polygon into bounded polygons
+ */
+export function toBoundedPolygons(geometry: Polygon | MultiPolygon): BoundedPolygon[] {
+  const polygons = geometry.type === 'MultiPolygon' ? geometry.coordinates : [geometry.coordinates];
+
+  return polygons.map(rings => {
+    const longitudes = rings[0].map(([lng]) => lng);
+    const latitudes = rings[0].map(([, lat]) => lat);
+    return {
+      bbox: [Math.min(...longitudes), Math.min(...latitudes), Math.max(...longitudes), Math.max(...latitudes)],
+      rings
+    };
+  });
+}
+
+/**
+ * Whether a point is inside a polygon (even-odd ray casting, so holes are excluded)
+ */
+export function isInPolygon([latitude, longitude]: [number, number], polygon: BoundedPolygon): boolean {
+  const [minLng, minLat, maxLng, maxLat] = polygon.bbox;
+  if (longitude < minLng || longitude > maxLng || latitude < minLat || latitude > maxLat) {
+    return false;
+  }
+
+  let inside = false;
+  polygon.rings.forEach(ring => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [lng1, lat1] = ring[i];
+      const [lng2, lat2] = ring[j];
+      if ((lat1 > latitude) !== (lat2 > latitude) && longitude < (lng2 - lng1) * (latitude - lat1) / (lat2 - lat1) + lng1) {
+        inside = !inside;
+      }
+    }
+  });
+
+  return inside;
+}
@@ -0,0 +1,148 @@
+import { SportType, SummaryActivity } from '@/services/strava/api';
+import { getSportType } from './activity-filter';
+import { ActivityOverrides, isExcludedFromStats } from './activity-overrides';
+import { haversineDistance } from './geo';
+
+/**
+ * Where we slept, for one or more nights in a row
+ */
+export interface OvernightStop {
+  location: [number, number];
+  // Local date of the first night, YYYY-MM-DD
+  firstNight: string;
+  nights: number;
+  // The activity that ended at the stop
+  afterActivityId?: number;
+}
+
+/**
+ * Day counts for a journey, plus where the nights were spent
+ * Dates are local to where the activities were recorded
+ */
+export interface JourneyDays {
+  daysOnTheRoad: number;
+  ridingDays: number;
+  restDays: number;
+  restDates: string[];
+  stops: OvernightStop[];
+}
+
+// Only riding outdoors makes a day a riding day; walks, hikes and turbo sessions are rest days
+const RIDING_SPORT_TYPES: SportType[] = [
+  'Ride',
+  'GravelRide',
+  'MountainBikeRide',
+  'EBikeRide',
+  'EMountainBikeRide',
+  'Handcycle',
+  'Velomobile'
+];
+
+// A next-morning start further than this from last night's finish means we travelled in between,
+// so the night is placed at the finish instead
+const MAX_MORNING_DRIFT_METERS = 5000;
+
+// Nights closer together than this are the same stop
+const SAME_STOP_METERS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The local date an activity started on, YYYY-MM-DD
+ * start_date_local is local wall time written as if it were UTC, so the date can be read off directly
+ */
+function localStartDate(activity: SummaryActivity): string | undefined {
+  return (activity.start_date_local || activity.start_date)?.slice(0, 10);
+}
+
+/**
+ * The local date an activity finished on, which is the following day for rides past midnight
+ */
+function localEndDate(activity: SummaryActivity): string | undefined {
+  const start = activity.start_date_local || activity.start_date;
+  if (!start) return undefined;
+
+  return new Date(new Date(start).getTime() + (activity.elapsed_time || 0) * 1000).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(date).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function isRidingActivity(activity: SummaryActivity): boolean {
+  const sportType = getSportType(activity);
+  return !!sportType && RIDING_SPORT_TYPES.includes(sportType) && !activity.trainer;
+}
+
+/**
+ * Work out overnight stops and riding/rest days from the activities
+ *
+ * Every night between two days with activities is a stop: where the next morning's first
+ * activity started, or where the previous evening's last one finished if we travelled in
+ * between. Consecutive nights in the same place are one stop. The last night is left out,
+ * since the trip may be over (or the stop still a secret). Days on the road run from the
+ * journey's start to the last activity; a rest day is one with no riding, and activities
+ * excluded from stats by an override don't count as riding.
+ *
+ * @param startDate The journey's start
+ */
+export function summarizeJourneyDays(
+  activities: SummaryActivity[],
+  startDate: string,
+  overrides: ActivityOverrides = {}
+): JourneyDays {
+  const sorted = activities
+    .filter(activity => localStartDate(activity))
+    .sort((a, b) => (a.start_date || '').localeCompare(b.start_date || ''));
+
+  if (sorted.length === 0) {
+    return { daysOnTheRoad: 0, ridingDays: 0, restDays: 0, restDates: [], stops: [] };
+  }
+
+  // Days on the road and which of them had riding
+  const firstDay = startDate.slice(0, 10);
+  const lastDay = localStartDate(sorted[sorted.length - 1])!;
+  const daysOnTheRoad = Math.max(0, daysBetween(firstDay, lastDay) + 1);
+
+  const ridingDates = new Set(sorted
+    .filter(activity => isRidingActivity(activity) && !isExcludedFromStats(activity, overrides))
+    .map(activity => localStartDate(activity)!));
+  const restDates = Array.from({ length: daysOnTheRoad }, (_, i) => addDays(firstDay, i))
+    .filter(date => !ridingDates.has(date));
+
+  // Overnight stops, from the located activities of each day
+  const located = sorted.filter(activity => activity.start_latlng?.length === 2 && activity.end_latlng?.length === 2);
+  const stops: OvernightStop[] = [];
+
+  located.slice(1).forEach((next, i) => {
+    const previous = located[i];
+    const night = localEndDate(previous)!;
+    const morning = localStartDate(next)!;
+    const nights = daysBetween(night, morning);
+    if (nights <= 0) return;
+
+    const finish = previous.end_latlng as [number, number];
+    const start = next.start_latlng as [number, number];
+    const location = haversineDistance(finish, start) <= MAX_MORNING_DRIFT_METERS ? start : finish;
+
+    const last = stops[stops.length - 1];
+    if (last && addDays(last.firstNight, last.nights) === night && haversineDistance(last.location, location) <= SAME_STOP_METERS) {
+      last.nights += nights;
+      return;
+    }
+
+    stops.push({ location, firstNight: night, nights, afterActivityId: previous.id });
+  });
+
+  return {
+    daysOnTheRoad,
+    ridingDays: daysOnTheRoad - restDates.length,
+    restDays: restDates.length,
+    restDates,
+    stops
+  };
+}
@@ -0,0 +1,182 @@
+import { SportType, SummaryActivity } from '@/services/strava/api';
+import { getSportType } from './activity-filter';
+import { ActivityOverrides, isExcludedFromStats } from './activity-overrides';
+import { isRidingActivity } from './journey-days';
+
+/**
+ * Distance, climbing and time added up over a set of activities
+ * Distances and climbing are in meters, times in seconds, speeds in m/s
+ */
+export interface ActivityTotals {
+  activities: number;
+  distance: number;
+  elevationGain: number;
+  movingTime: number;
+  elapsedTime: number;
+  // Distance over moving time, or 0 without any moving time
+  averageSpeed: number;
+}
+
+/**
+ * Totals for one week (starting Monday) or calendar month
+ * Average speed is from the riding only, so a hike doesn't read as a slow week on the bike
+ */
+export interface PeriodStats extends ActivityTotals {
+  // YYYY-MM-DD of the Monday for weeks, YYYY-MM for months
+  period: string;
+  ridingAverageSpeed: number;
+}
+
+/**
+ * Totals for one local day
+ */
+export interface DayStats extends ActivityTotals {
+  // YYYY-MM-DD
+  date: string;
+}
+
+export interface SportTypeStats extends ActivityTotals {
+  sportType: SportType | 'Unknown';
+}
+
+/**
+ * Everything on the statistics page
+ * Activities excluded from stats by an override are left out throughout, and the
+ * per-day figures (average riding day, longest and hilliest days) count days with riding
+ */
+export interface JourneyStats {
+  totals: ActivityTotals;
+  ridingDays: number;
+  averageRidingDay: ActivityTotals | null;
+  longestDay: DayStats | null;
+  hilliestDay: DayStats | null;
+  weeks: PeriodStats[];
+  months: PeriodStats[];
+  // Most activities first
+  sportTypes: SportTypeStats[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The local date an activity started on, YYYY-MM-DD
+ */
+function localDate(activity: SummaryActivity): string | undefined {
+  return (activity.start_date_local || activity.start_date)?.slice(0, 10);
+}
+
+/**
+ * The Monday of a date's week, YYYY-MM-DD
+ */
+function weekStart(date: string): string {
+  const time = new Date(date).getTime();
+  const daysSinceMonday = (new Date(time).getUTCDay() + 6) % 7;
+  return new Date(time - daysSinceMonday * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Add up distance, climbing and time
+ */
+export function sumActivities(activities: SummaryActivity[]): ActivityTotals {
+  const totals = activities.reduce<ActivityTotals>((sum, activity) => ({
+    activities: sum.activities + 1,
+    distance: sum.distance + (activity.distance || 0),
+    elevationGain: sum.elevationGain + (activity.total_elevation_gain || 0),
+    movingTime: sum.movingTime + (activity.moving_time || 0),
+    elapsedTime: sum.elapsedTime + (activity.elapsed_time || 0),
+    averageSpeed: 0
+  }), { activities: 0, distance: 0, elevationGain: 0, movingTime: 0, elapsedTime: 0, averageSpeed: 0 });
+
+  return { ...totals, averageSpeed: totals.movingTime > 0 ? totals.distance / totals.movingTime : 0 };
+}
+
+/**
+ * Activities grouped by key, in key order
+ */
+function groupBy<T>(items: T[], key: (item: T) => string | undefined): [string, T[]][] {
+  const groups = new Map<string, T[]>();
+
+  items.forEach(item => {
+    const value = key(item);
+    if (value !== undefined) {
+      groups.set(value, [...(groups.get(value) || []), item]);
+    }
+  });
+
+  return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
+
+function summarizePeriods(activities: SummaryActivity[], period: (date: string) => string): PeriodStats[] {
+  return groupBy(activities, activity => {
+    const date = localDate(activity);
+    return date ? period(date) : undefined;
+  }).map(([key, group]) => ({
+    period: key,
+    ...sumActivities(group),
+    ridingAverageSpeed: sumActivities(group.filter(isRidingActivity)).averageSpeed
+  }));
+}
+
+/**
+ * Journey totals counted the same way everywhere, leaving out activities excluded by an override
+ */
+export function summarizeTotals(activities: SummaryActivity[], overrides: ActivityOverrides = {}): ActivityTotals {
+  return sumActivities(activities.filter(activity => !isExcludedFromStats(activity, overrides)));
+}
+
+/**
+ * Number of counted activities per sport type, for the map's legend
+ */
+export function countSportTypes(activities: SummaryActivity[], overrides: ActivityOverrides = {}): Record<string, number> {
+  const counts: Record<string, number> = {};
+
+  activities
+    .filter(activity => !isExcludedFromStats(activity, overrides))
+    .forEach(activity => {
+      const sportType = getSportType(activity);
+      if (sportType) {
+        counts[sportType] = (counts[sportType] || 0) + 1;
+      }
+    });
+
+  return counts;
+}
+
+/**
+ * Work out the statistics page's figures from a journey's published activities
+ */
+export function summarizeJourneyStats(activities: SummaryActivity[], overrides: ActivityOverrides = {}): JourneyStats {
+  const counted = activities.filter(activity => !isExcludedFromStats(activity, overrides));
+
+  // Days with riding, with all of that day's riding added up
+  const days: DayStats[] = groupBy(counted.filter(isRidingActivity), localDate)
+    .map(([date, group]) => ({ date, ...sumActivities(group) }));
+
+  const ridingTotals = sumActivities(counted.filter(isRidingActivity));
+  const averageRidingDay = days.length > 0 ? {
+    activities: ridingTotals.activities / days.length,
+    distance: ridingTotals.distance / days.length,
+    elevationGain: ridingTotals.elevationGain / days.length,
+    movingTime: ridingTotals.movingTime / days.length,
+    elapsedTime: ridingTotals.elapsedTime / days.length,
+    averageSpeed: ridingTotals.averageSpeed
+  } : null;
+
+  const most = (key: keyof ActivityTotals) => days.reduce<DayStats | null>(
+    (best, day) => !best || day[key] > best[key] ? day : best,
+    null
+  );
+
+  return {
+    totals: sumActivities(counted),
+    ridingDays: days.length,
+    averageRidingDay,
+    longestDay: most('distance'),
+    hilliestDay: most('elevationGain'),
+    weeks: summarizePeriods(counted, weekStart),
+    months: summarizePeriods(counted, date => date.slice(0, 7)),
+    sportTypes: groupBy(counted, activity => getSportType(activity) || 'Unknown')
+      .map(([sportType, group]) => ({ sportType: sportType as SportTypeStats['sportType'], ...sumActivities(group) }))
+      .sort((a, b) => b.activities - a.activities)
+  };
+}
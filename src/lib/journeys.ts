@@ -0,0 +1,154 @@
+import fs from 'fs';
+import { SummaryActivity } from '@/services/strava/api';
+import { Journey, JourneyLeg } from '@/interfaces/journey';
+import { ActivityFilter, getJourneyActivityFilter } from './activity-filter';
+import { ActivityOverrides, isExcludedFromStats } from './activity-overrides';
+import { activityTimestamp } from './activity-store';
+import { dataPath } from './data-directory';
+
+const journeysFile = dataPath('journeys.json');
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Local time runs up to 14 hours ahead of UTC
+const MAX_UTC_OFFSET_SECONDS = 14 * 60 * 60;
+
+/**
+ * Per-leg totals for a journey
+ */
+export interface LegSummary {
+  leg: JourneyLeg;
+  activities: number;
+  distance: number;
+  elevationGain: number;
+}
+
+/**
+ * The single journey used when there is no journeys.json, configured by JOURNEY_START_DATE
+ */
+function defaultJourney(): Journey {
+  return {
+    slug: 'journey',
+    title: 'My Journey',
+    startDate: process.env.JOURNEY_START_DATE || '2025-03-01T00:00:00Z'
+  };
+}
+
+function validateJourney(journey: Journey, index: number) {
+  if (!journey.slug || !journey.title || !journey.startDate) {
+    throw new Error(`Journey ${index} in ${journeysFile} needs a slug, title and startDate`);
+  }
+
+  if (Number.isNaN(toEpoch(journey.startDate)) || (journey.endDate && Number.isNaN(toEpoch(journey.endDate)))) {
+    throw new Error(`Journey "${journey.slug}" has an invalid start or end date`);
+  }
+}
+
+/**
+ * Epoch seconds for a config date
+ * @param end Treat a date without a time as the end of that day (UTC)
+ */
+function toEpoch(date: string, end: boolean = false): number {
+  const seconds = Math.floor(new Date(date).getTime() / 1000);
+  return end && DATE_ONLY.test(date) ? seconds + 24 * 60 * 60 - 1 : seconds;
+}
+
+/**
+ * Whether an activity started within a date range; a missing end date is open-ended
+ * Dates without a time are days where the activity was recorded, so they are compared with its local start date
+ */
+function isWithin(activity: SummaryActivity, startDate: string, endDate?: string): boolean {
+  const timestamp = activityTimestamp(activity);
+  const day = (activity.start_date_local || activity.start_date || '').slice(0, 10);
+
+  const afterStart = DATE_ONLY.test(startDate) ? day >= startDate : timestamp >= toEpoch(startDate);
+  const beforeEnd = !endDate || (DATE_ONLY.test(endDate) ? day <= endDate : timestamp <= toEpoch(endDate, true));
+  return afterStart && beforeEnd;
+}
+
+/**
+ * All configured journeys, most recent first
+ */
+export function getAllJourneys(): Journey[] {
+  if (!fs.existsSync(journeysFile)) {
+    return [defaultJourney()];
+  }
+
+  const journeys = JSON.parse(fs.readFileSync(journeysFile, 'utf8')) as Journey[];
+  journeys.forEach(validateJourney);
+
+  const slugs = new Set(journeys.map(journey => journey.slug));
+  if (slugs.size !== journeys.length) {
+    throw new Error(`Journey slugs in ${journeysFile} must be unique`);
+  }
+
+  return journeys.sort((a, b) => toEpoch(b.startDate) - toEpoch(a.startDate));
+}
+
+export function getJourneyBySlug(slug: string): Journey | undefined {
+  return getAllJourneys().find(journey => journey.slug === slug);
+}
+
+/**
+ * The trip to feature on the home page: the one in progress, otherwise the most recently started
+ */
+export function getCurrentJourney(now: Date = new Date()): Journey {
+  const journeys = getAllJourneys();
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  const started = journeys.filter(journey => toEpoch(journey.startDate) <= nowSeconds);
+
+  const inProgress = started.find(journey => !journey.endDate || toEpoch(journey.endDate, true) >= nowSeconds);
+
+  // If every trip is still upcoming, feature the soonest
+  return inProgress || started[0] || journeys[journeys.length - 1];
+}
+
+/**
+ * Epoch seconds from which the activity store must be complete to cover every journey
+ */
+export function getSyncStart(): number {
+  // A journey starting on a day also covers activities from that local morning, before it began in UTC
+  return Math.min(...getAllJourneys().map(journey =>
+    toEpoch(journey.startDate) - (DATE_ONLY.test(journey.startDate) ? MAX_UTC_OFFSET_SECONDS : 0)
+  ));
+}
+
+/**
+ * The journey's own filter, falling back to the JOURNEY_* environment filter
+ */
+export function getJourneyFilter(journey: Journey): ActivityFilter {
+  return { ...getJourneyActivityFilter(), ...journey.filter };
+}
+
+/**
+ * Whether an activity started during the journey
+ */
+export function isActivityInJourney(activity: SummaryActivity, journey: Journey): boolean {
+  return isWithin(activity, journey.startDate, journey.endDate);
+}
+
+/**
+ * Whether an activity started during the leg
+ */
+export function isActivityInLeg(activity: SummaryActivity, leg: JourneyLeg): boolean {
+  return isWithin(activity, leg.startDate, leg.endDate);
+}
+
+/**
+ * Totals per leg, in the order the legs are configured
+ * Activities excluded from stats by an override are not counted
+ */
+export function summarizeLegs(journey: Journey, activities: SummaryActivity[], overrides: ActivityOverrides = {}): LegSummary[] {
+  return (journey.legs || []).map(leg => {
+    const legActivities = activities.filter(activity =>
+      isActivityInLeg(activity, leg) && !isExcludedFromStats(activity, overrides)
+    );
+
+    return {
+      leg,
+      activities: legActivities.length,
+      distance: legActivities.reduce((total, activity) => total + (activity.distance || 0), 0),
+      elevationGain: legActivities.reduce((total, activity) => total + (activity.total_elevation_gain || 0), 0)
+    };
+  });
+}
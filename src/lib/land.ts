@@ -0,0 +1,30 @@
+import { feature } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import land50m from 'world-atlas/land-50m.json';
+import { BoundedPolygon, isInPolygon, toBoundedPolygons } from './geo';
+
+let landPolygons: BoundedPolygon[] | null = null;
+
+/**
+ * Natural Earth 1:50m land polygons from the bundled world atlas, decoded on first use
+ */
+function getLandPolygons(): BoundedPolygon[] {
+  if (!landPolygons) {
+    const topology = land50m as unknown as Topology<{ land: GeometryCollection }>;
+    const { features } = feature(topology, topology.objects.land);
+
+    landPolygons = features.flatMap(({ geometry }) =>
+      geometry.type === 'Polygon' || geometry.type === 'MultiPolygon' ? toBoundedPolygons(geometry) : []
+    );
+  }
+
+  return landPolygons;
+}
+
+/**
+ * Whether a point is on land (as opposed to sea or a large lake)
+ * Coastlines are only accurate to a few kilometers at this scale
+ */
+export function isOnLand(point: [number, number]): boolean {
+  return getLandPolygons().some(polygon => isInPolygon(point, polygon));
+}
@@ -0,0 +1,19 @@
+import { promises as fs } from 'fs';
+import { ActivityOverrides } from './activity-overrides';
+import { dataPath } from './data-directory';
+
+/**
+ * Read the per-activity overrides, e.g. _data/overrides.json:
+ *
+ *   { "12345678": { "hide": true }, "23456789": { "name": "Shuttle up the col", "excludeFromStats": true } }
+ */
+export async function loadActivityOverrides(filePath: string = dataPath('overrides.json')): Promise<ActivityOverrides> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as ActivityOverrides;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+}
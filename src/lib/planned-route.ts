@@ -0,0 +1,308 @@
+import { promises as fs } from 'fs';
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import { Journey } from '@/interfaces/journey';
+import { dataPath } from './data-directory';
+import { haversineDistance, thinPath } from './geo';
+import { parseGpx } from './track-parser';
+
+/**
+ * How far along the planned route the latest ridden position is
+ * Distances are in meters
+ */
+export interface RouteProgress {
+  done: number;
+  remaining: number;
+  total: number;
+  percent: number;
+}
+
+/**
+ * A journey's planned route compared with what has been ridden so far
+ */
+export interface PlannedRoute {
+  path: [number, number][];
+  progress: RouteProgress | null;
+  // Sections of the plan that were left for a detour and rejoined later
+  offRoute: [number, number][][];
+}
+
+/**
+ * Where a point lies relative to a route
+ */
+export interface RouteProjection {
+  // Meters along the route to the nearest point on it
+  along: number;
+  // Meters from the point to the route
+  distance: number;
+}
+
+// Ridden points further than this from the plan count as off-route
+const OFF_ROUTE_METERS = 250;
+
+// Plans and ridden paths are thinned to this spacing (like summary polylines) so long trips stay cheap
+const COMPARE_SPACING_METERS = 100;
+
+// Off-route sections shorter than this (along the plan) are GPS noise or a short diversion
+const MIN_OFF_ROUTE_SECTION_METERS = 500;
+
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * A route with its cumulative distances and a grid of which segments pass through each cell
+ */
+interface IndexedRoute {
+  points: [number, number][];
+  cumulative: number[];
+  cellDegrees: number;
+  cellLngDegrees: number;
+  cells: Map<string, number[]>;
+}
+
+function cellKey(row: number, column: number): string {
+  return `${row}:${column}`;
+}
+
+function indexRoute(points: [number, number][], cellMeters: number): IndexedRoute {
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) {
+    cumulative.push(cumulative[i - 1] + haversineDistance(points[i - 1], points[i]));
+  }
+
+  // Cells are at least cellMeters wide everywhere on the route, so only neighbouring cells need checking
+  const maxLatitude = points.reduce((max, [latitude]) => Math.max(max, Math.abs(latitude)), 0);
+  const cellDegrees = cellMeters / METERS_PER_DEGREE;
+  const cellLngDegrees = cellDegrees / Math.max(Math.cos(maxLatitude * Math.PI / 180), 0.1);
+
+  const cells = new Map<string, number[]>();
+  for (let i = 1; i < points.length; i++) {
+    const [lat1, lng1] = points[i - 1];
+    const [lat2, lng2] = points[i];
+
+    for (let row = Math.floor(Math.min(lat1, lat2) / cellDegrees); row <= Math.floor(Math.max(lat1, lat2) / cellDegrees); row++) {
+      for (let column = Math.floor(Math.min(lng1, lng2) / cellLngDegrees); column <= Math.floor(Math.max(lng1, lng2) / cellLngDegrees); column++) {
+        const key = cellKey(row, column);
+        cells.set(key, [...(cells.get(key) || []), i - 1]);
+      }
+    }
+  }
+
+  return { points, cumulative, cellDegrees, cellLngDegrees, cells };
+}
+
+/**
+ * Project a point onto one segment of the route
+ */
+function projectOntoSegment(route: IndexedRoute, segment: number, point: [number, number]): RouteProjection {
+  const [lat1, lng1] = route.points[segment];
+  const [lat2, lng2] = route.points[segment + 1];
+
+  // Flat projection around the segment is accurate enough at segment scale
+  const scale = Math.cos(lat1 * Math.PI / 180);
+  const dx = (lng2 - lng1) * scale;
+  const dy = lat2 - lat1;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0
+    ? Math.min(1, Math.max(0, (((point[1] - lng1) * scale) * dx + (point[0] - lat1) * dy) / lengthSquared))
+    : 0;
+
+  const nearest: [number, number] = [lat1 + t * (lat2 - lat1), lng1 + t * (lng2 - lng1)];
+
+  return {
+    along: route.cumulative[segment] + t * (route.cumulative[segment + 1] - route.cumulative[segment]),
+    distance: haversineDistance(point, nearest)
+  };
+}
+
+function nearestProjection(route: IndexedRoute, point: [number, number], segments: Iterable<number>): RouteProjection | null {
+  let best: RouteProjection | null = null;
+
+  for (const segment of segments) {
+    const projection = projectOntoSegment(route, segment, point);
+    if (!best || projection.distance < best.distance) {
+      best = projection;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Nearest point on the route, searching the whole route
+ */
+function projectOntoRoute(route: IndexedRoute, point: [number, number]): RouteProjection | null {
+  return nearestProjection(route, point, route.points.slice(1).keys());
+}
+
+/**
+ * Nearest point on the route if it is within the index's cell size, using the grid
+ */
+function projectNearby(route: IndexedRoute, point: [number, number]): RouteProjection | null {
+  const row = Math.floor(point[0] / route.cellDegrees);
+  const column = Math.floor(point[1] / route.cellLngDegrees);
+  const segments = new Set<number>();
+
+  for (let r = row - 1; r <= row + 1; r++) {
+    for (let c = column - 1; c <= column + 1; c++) {
+      route.cells.get(cellKey(r, c))?.forEach(segment => segments.add(segment));
+    }
+  }
+
+  return nearestProjection(route, point, segments);
+}
+
+/**
+ * The part of the route between two distances along it
+ */
+function sliceRoute(route: IndexedRoute, from: number, to: number): [number, number][] {
+  const pointAt = (along: number): [number, number] => {
+    const i = Math.max(0, route.cumulative.findIndex(distance => distance >= along) - 1);
+    const length = route.cumulative[i + 1] - route.cumulative[i];
+    const t = length > 0 ? (along - route.cumulative[i]) / length : 0;
+    const [lat1, lng1] = route.points[i];
+    const [lat2, lng2] = route.points[i + 1] || route.points[i];
+    return [lat1 + t * (lat2 - lat1), lng1 + t * (lng2 - lng1)];
+  };
+
+  return [
+    pointAt(from),
+    ...route.points.filter((_, i) => route.cumulative[i] > from && route.cumulative[i] < to),
+    pointAt(to)
+  ];
+}
+
+function isGeoJsonObject(value: unknown): value is { type: string } {
+  return typeof value === 'object' && value !== null && typeof (value as { type?: unknown }).type === 'string';
+}
+
+function isPosition(value: unknown): value is Position {
+  return Array.isArray(value)
+    && value.length >= 2
+    && value.every(coordinate => typeof coordinate === 'number' && Number.isFinite(coordinate))
+    && Math.abs(value[1]) <= 90;
+}
+
+/**
+ * The geometries in a bare geometry, Feature or FeatureCollection
+ */
+function routeGeometries(geoJson: unknown, fileName: string): Geometry[] {
+  if (!isGeoJsonObject(geoJson)) {
+    throw new Error(`${fileName} is not GeoJSON`);
+  }
+
+  if (geoJson.type === 'FeatureCollection') {
+    const { features } = geoJson as FeatureCollection;
+    if (!Array.isArray(features)) {
+      throw new Error(`${fileName} has a FeatureCollection without features`);
+    }
+    return features.flatMap(feature => routeGeometries(feature, fileName));
+  }
+
+  if (geoJson.type === 'Feature') {
+    const { geometry } = geoJson as Feature;
+    return geometry ? routeGeometries(geometry, fileName) : [];
+  }
+
+  return [geoJson as Geometry];
+}
+
+/**
+ * The lines of a LineString or MultiLineString; other geometries (e.g. waypoints) add none
+ */
+function routeLines(geometry: Geometry, fileName: string): Position[][] {
+  const lines: unknown = geometry.type === 'LineString' ? [geometry.coordinates]
+    : geometry.type === 'MultiLineString' ? geometry.coordinates
+    : [];
+
+  if (!Array.isArray(lines) || !lines.every(line => Array.isArray(line) && line.every(isPosition))) {
+    throw new Error(`${fileName} has a ${geometry.type} with invalid coordinates`);
+  }
+
+  return lines;
+}
+
+/**
+ * Read the route's points from a GPX file or a GeoJSON LineString/MultiLineString
+ * (bare geometry, Feature or FeatureCollection)
+ */
+export function parsePlannedRoute(contents: string, fileName: string): [number, number][] {
+  if (/\.gpx$/i.test(fileName)) {
+    return parseGpx(contents).points.map(point => [point.latitude, point.longitude]);
+  }
+
+  return routeGeometries(JSON.parse(contents), fileName)
+    .flatMap(geometry => routeLines(geometry, fileName))
+    .flat()
+    .map(([lng, lat]) => [lat, lng] as [number, number]);
+}
+
+/**
+ * Load a journey's planned route from _data/routes, if it has one
+ */
+export async function loadPlannedRoute(journey: Journey): Promise<[number, number][] | null> {
+  if (!journey.plannedRoute) {
+    return null;
+  }
+
+  const contents = await fs.readFile(dataPath('routes', journey.plannedRoute), 'utf8');
+  const points = parsePlannedRoute(contents, journey.plannedRoute);
+
+  return points.length >= 2 ? points : null;
+}
+
+/**
+ * Compare the plan with the ridden paths
+ *
+ * Progress comes from projecting the current position onto the plan. A stretch of riding
+ * that leaves the plan and later rejoins it marks the plan between the two points as
+ * ridden off-route. A detour into town and back rejoins where it left, so marks nothing.
+ *
+ * @param plan Planned route points
+ * @param ridden Ridden paths, one per activity, oldest first
+ * @param currentLocation Latest ridden position
+ */
+export function comparePlannedRoute(
+  plan: [number, number][],
+  ridden: [number, number][][],
+  currentLocation?: [number, number]
+): PlannedRoute {
+  const route = indexRoute(thinPath(plan, COMPARE_SPACING_METERS), OFF_ROUTE_METERS);
+  const total = route.cumulative[route.cumulative.length - 1];
+
+  const position = currentLocation && projectOntoRoute(route, currentLocation);
+  const progress = position ? {
+    done: position.along,
+    remaining: total - position.along,
+    total,
+    percent: total > 0 ? Math.round(position.along / total * 100) : 0
+  } : null;
+
+  const offRoute: [number, number][][] = [];
+
+  ridden.forEach(path => {
+    let lastOnRoute: RouteProjection | null = null;
+    let leftRoute = false;
+
+    thinPath(path, COMPARE_SPACING_METERS).forEach(point => {
+      const projection = projectNearby(route, point);
+      const onRoute = projection && projection.distance <= OFF_ROUTE_METERS;
+
+      if (!onRoute) {
+        leftRoute = true;
+        return;
+      }
+
+      if (leftRoute && lastOnRoute) {
+        const from = Math.min(lastOnRoute.along, projection.along);
+        const to = Math.max(lastOnRoute.along, projection.along);
+        if (to - from >= MIN_OFF_ROUTE_SECTION_METERS) {
+          offRoute.push(sliceRoute(route, from, to));
+        }
+      }
+
+      lastOnRoute = projection;
+      leftRoute = false;
+    });
+  });
+
+  return { path: route.points, progress, offRoute };
+}
@@ -14,17 +14,6 @@ export function decodePolyline(encoded: string): [number, number][] {
     return [];
   }
 
-  // For mock testing data
-  if (encoded === 'mock_polyline_data') {
-    return [
-      [51.5074, -0.1278], // London
-      [48.8566, 2.3522],  // Paris
-      [41.9028, 12.4964], // Rome
-      [40.4168, -3.7038], // Madrid
-      [52.5200, 13.4050]  // Berlin
-    ];
-  }
-
   const points: [number, number][] = [];
   let index = 0;
   const len = encoded.length;
@@ -0,0 +1,265 @@
+import { promises as fs } from 'fs';
+import { SummaryActivity } from '@/services/strava/api';
+import { StreamSet } from './strava-streams';
+import { activityTimestamp } from './activity-store';
+import { dataPath } from './data-directory';
+import { nearestPlace } from './gazetteer';
+import { haversineDistance } from './geo';
+import { decodePolyline, encodePolyline } from './polyline';
+
+/**
+ * A circle around a sensitive place (a host's home, a wild camp) that routes must not reveal
+ */
+export interface PrivacyZone {
+  name?: string;
+  latitude: number;
+  longitude: number;
+  // Meters
+  radius: number;
+}
+
+/**
+ * How the public "current location" (the end of the latest activity) is blurred
+ * - none: shown as recorded
+ * - grid: snapped to the centre of a grid cell `radiusMeters` wide
+ * - town: snapped to the nearest town of at least `minPopulation` people
+ */
+export type LocationFuzzing = 'none' | 'grid' | 'town';
+
+export interface CurrentLocationSettings {
+  // Withhold activities that ended less than this many hours ago. Nothing re-renders a page when
+  // the delay runs out, so every page showing activities sets `revalidate = 3600` (Next.js needs
+  // the literal in each page) and picks them up within the hour
+  delayHours: number;
+  fuzzing: LocationFuzzing;
+  // Grid cell size, and how far around the real position routes are cut back when fuzzing
+  radiusMeters: number;
+  minPopulation: number;
+}
+
+export interface PrivacySettings {
+  zones: PrivacyZone[];
+  // Cut this many meters off the start and end of every activity
+  trimMeters: number;
+  currentLocation: CurrentLocationSettings;
+}
+
+const NO_PRIVACY: PrivacySettings = {
+  zones: [],
+  trimMeters: 0,
+  currentLocation: { delayHours: 0, fuzzing: 'none', radiusMeters: 5000, minPopulation: 5000 }
+};
+
+// How far 'town' fuzzing looks for a town before falling back to the grid
+const TOWN_SEARCH_METERS = 50000;
+
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * Read the privacy settings, e.g. _data/privacy.json:
+ *
+ *   {
+ *     "trimMeters": 250,
+ *     "zones": [{ "name": "Home", "latitude": 51.5, "longitude": -0.12, "radius": 500 }],
+ *     "currentLocation": { "delayHours": 48, "fuzzing": "town", "radiusMeters": 5000, "minPopulation": 5000 }
+ *   }
+ */
+export async function loadPrivacySettings(filePath: string = dataPath('privacy.json')): Promise<PrivacySettings> {
+  try {
+    const settings = JSON.parse(await fs.readFile(filePath, 'utf8')) as Partial<PrivacySettings>;
+    return {
+      ...NO_PRIVACY,
+      ...settings,
+      currentLocation: { ...NO_PRIVACY.currentLocation, ...settings.currentLocation }
+    };
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return NO_PRIVACY;
+    }
+    throw error;
+  }
+}
+
+export function isInPrivacyZone(point: [number, number], zones: PrivacyZone[]): boolean {
+  return zones.some(zone => haversineDistance(point, [zone.latitude, zone.longitude]) <= zone.radius);
+}
+
+/**
+ * Snap a point to the centre of its grid cell
+ */
+export function snapToGrid([latitude, longitude]: [number, number], cellMeters: number): [number, number] {
+  const latitudeStep = cellMeters / METERS_PER_DEGREE;
+  const snappedLatitude = (Math.floor(latitude / latitudeStep) + 0.5) * latitudeStep;
+
+  // Cells keep roughly the same width in meters away from the equator
+  const longitudeStep = cellMeters / (METERS_PER_DEGREE * Math.max(Math.cos(snappedLatitude * Math.PI / 180), 0.01));
+  const snappedLongitude = (Math.floor(longitude / longitudeStep) + 0.5) * longitudeStep;
+
+  return [snappedLatitude, snappedLongitude];
+}
+
+/**
+ * The published stand-in for a real position
+ */
+export function fuzzLocation(point: [number, number], settings: CurrentLocationSettings): [number, number] {
+  if (settings.fuzzing === 'town') {
+    const town = nearestPlace(point, { minPopulation: settings.minPopulation, maxDistance: TOWN_SEARCH_METERS });
+    if (town) {
+      return [town.place.latitude, town.place.longitude];
+    }
+  }
+
+  if (settings.fuzzing === 'none') {
+    return point;
+  }
+
+  return snapToGrid(point, settings.radiusMeters);
+}
+
+/**
+ * Whether an activity finished long enough ago to be published
+ */
+export function isPastPublicationDelay(activity: SummaryActivity, settings: CurrentLocationSettings, now: number = Date.now()): boolean {
+  const endedAt = (activityTimestamp(activity) + (activity.elapsed_time || 0)) * 1000;
+  return endedAt <= now - settings.delayHours * 60 * 60 * 1000;
+}
+
+/**
+ * Which points of a path may be published: not within `trimMeters` of either end
+ * (measured along the path) and not inside any zone
+ */
+export function getPublicPointMask(points: [number, number][], settings: PrivacySettings): boolean[] {
+  const fromStart: number[] = [];
+  let travelled = 0;
+
+  points.forEach((point, i) => {
+    if (i > 0) travelled += haversineDistance(points[i - 1], point);
+    fromStart.push(travelled);
+  });
+
+  return points.map((point, i) =>
+    fromStart[i] >= settings.trimMeters &&
+    travelled - fromStart[i] >= settings.trimMeters &&
+    !isInPrivacyZone(point, settings.zones)
+  );
+}
+
+// Streams that may leave the server; heart rate, power and the like never do,
+// even if an older cache entry or a track file still has them
+const PUBLISHED_STREAM_KEYS: (keyof StreamSet)[] = ['latlng', 'altitude', 'distance'];
+
+function pickPublishedStreams(streams: StreamSet): StreamSet {
+  return Object.fromEntries(
+    PUBLISHED_STREAM_KEYS.filter(key => streams[key]).map(key => [key, streams[key]])
+  ) as StreamSet;
+}
+
+/**
+ * Remove the private points from every published stream, keeping the streams index-aligned with latlng
+ */
+function privatizeStreams(allStreams: StreamSet, settings: PrivacySettings): StreamSet {
+  const streams = pickPublishedStreams(allStreams);
+  const points = streams.latlng?.data as [number, number][] | undefined;
+  if (!points) {
+    return streams;
+  }
+
+  const mask = getPublicPointMask(points, settings);
+  const result: Record<string, unknown> = {};
+
+  Object.entries(streams).forEach(([key, stream]) => {
+    const data = stream?.data as unknown[] | undefined;
+    result[key] = data && data.length === mask.length
+      ? { ...stream, data: data.filter((_, i) => mask[i]), original_size: mask.filter(Boolean).length }
+      : stream;
+  });
+
+  return result as StreamSet;
+}
+
+/**
+ * Apply the privacy settings to activities and their streams before they are published
+ * Everything that leaves the server (page props, exports) must go through this
+ *
+ * Activities inside the publication delay are withheld. Private points are dropped from
+ * the summary polyline and every stream, and start/end points are moved to the first/last
+ * public point. Activities that are entirely private lose their geometry. A route passing
+ * through a zone is joined straight across it.
+ *
+ * With fuzzing on, the real current location is treated as one more zone and the latest
+ * activity's end point is replaced by its fuzzed stand-in.
+ */
+export function applyPrivacy<T extends SummaryActivity>(
+  activities: T[],
+  streams: Record<number, StreamSet>,
+  privacy: PrivacySettings,
+  now: number = Date.now()
+): { activities: T[]; streams: Record<number, StreamSet> } {
+  const published = activities.filter(activity => isPastPublicationDelay(activity, privacy.currentLocation, now));
+
+  const latest = published.reduce<T | undefined>(
+    (newest, activity) => !newest || activityTimestamp(activity) > activityTimestamp(newest) ? activity : newest,
+    undefined
+  );
+  const currentLocation = latest?.end_latlng?.length === 2 ? latest.end_latlng as [number, number] : undefined;
+  const fuzzing = privacy.currentLocation.fuzzing !== 'none' && currentLocation;
+
+  const settings: PrivacySettings = fuzzing ? {
+    ...privacy,
+    zones: [...privacy.zones, {
+      name: 'Current location',
+      latitude: currentLocation[0],
+      longitude: currentLocation[1],
+      radius: privacy.currentLocation.radiusMeters
+    }]
+  } : privacy;
+
+  const publicStreams: Record<number, StreamSet> = {};
+
+  if (settings.zones.length === 0 && settings.trimMeters <= 0) {
+    published.forEach(activity => {
+      if (activity.id !== undefined && streams[activity.id]) {
+        publicStreams[activity.id] = pickPublishedStreams(streams[activity.id]);
+      }
+    });
+
+    return { activities: published, streams: publicStreams };
+  }
+
+  const publicActivities = published.map(activity => {
+    const activityStreams = activity.id !== undefined ? streams[activity.id] : undefined;
+    if (activityStreams) {
+      publicStreams[activity.id!] = privatizeStreams(activityStreams, settings);
+    }
+
+    // Fall back to the start and end points for activities recorded without a route
+    const polylinePoints = activity.map?.summary_polyline
+      ? decodePolyline(activity.map.summary_polyline)
+      : [activity.start_latlng, activity.end_latlng].filter(point => point?.length === 2) as [number, number][];
+
+    const mask = getPublicPointMask(polylinePoints, settings);
+    const publicPoints = polylinePoints.filter((_, i) => mask[i]);
+
+    // The streams are the more precise source for the new start and end points
+    const streamPoints = activityStreams ? publicStreams[activity.id!].latlng?.data as [number, number][] | undefined : undefined;
+    const endpoints = streamPoints && streamPoints.length > 0 ? streamPoints : publicPoints;
+
+    const endLatlng = fuzzing && activity === latest
+      ? fuzzLocation(currentLocation, privacy.currentLocation)
+      : endpoints[endpoints.length - 1];
+
+    return {
+      ...activity,
+      start_latlng: endpoints[0],
+      end_latlng: endLatlng,
+      // The full-resolution polyline is never published, only the trimmed summary
+      map: activity.map && {
+        ...activity.map,
+        polyline: undefined,
+        summary_polyline: activity.map.summary_polyline ? encodePolyline(publicPoints) : activity.map.summary_polyline
+      }
+    };
+  });
+
+  return { activities: publicActivities, streams: publicStreams };
+}
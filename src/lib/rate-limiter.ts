@@ -0,0 +1,195 @@
+import { AxiosResponse, isAxiosError } from 'axios';
+import { RateLimitWindow, StravaRateLimitError } from './strava-errors';
+
+const SHORT_WINDOW_MS = 15 * 60 * 1000;
+
+interface Budget {
+  limit: number;
+  usage: number;
+  resetsAt: number;
+}
+
+export interface RateLimitSchedulerOptions {
+  // Number of retries after a 429 or 5xx response
+  maxRetries?: number;
+  // First backoff delay, doubled on every retry
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Requests to keep in hand in each window rather than spending the budget to zero
+  reserve?: number;
+}
+
+/**
+ * Start of the next 15-minute window (Strava resets at :00, :15, :30 and :45)
+ */
+function nextShortReset(now: number): number {
+  return Math.floor(now / SHORT_WINDOW_MS) * SHORT_WINDOW_MS + SHORT_WINDOW_MS;
+}
+
+/**
+ * Start of the next day in UTC, when Strava resets the daily budget
+ */
+function nextDailyReset(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+/**
+ * Parse a "short,daily" rate limit header pair into numbers
+ */
+function parsePair(value: unknown): [number, number] | null {
+  if (typeof value !== 'string') return null;
+
+  const [short, daily] = value.split(',').map(part => Number(part.trim()));
+  if (Number.isNaN(short) || Number.isNaN(daily)) return null;
+
+  return [short, daily];
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Schedules Strava API requests against the 15-minute and daily budgets
+ * reported in the X-RateLimit-* headers, backing off with jitter on 429 and
+ * 5xx responses and failing with a StravaRateLimitError once the budget is spent
+ */
+export class RateLimitScheduler {
+  private short: Budget | null = null;
+  private daily: Budget | null = null;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private reserve: number;
+
+  constructor(options: RateLimitSchedulerOptions = {}) {
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+    this.reserve = options.reserve ?? 0;
+  }
+
+  /**
+   * Requests left in each window, or null while no headers have been seen yet
+   */
+  remaining(now: number = Date.now()): { short: number | null; daily: number | null } {
+    this.expireWindows(now);
+
+    return {
+      short: this.short ? this.short.limit - this.short.usage : null,
+      daily: this.daily ? this.daily.limit - this.daily.usage : null
+    };
+  }
+
+  /**
+   * Whether `count` more requests fit into the current budget
+   */
+  canSpend(count: number = 1, now: number = Date.now()): boolean {
+    const { short, daily } = this.remaining(now);
+
+    return (short === null || short - this.reserve >= count) &&
+      (daily === null || daily - this.reserve >= count);
+  }
+
+  /**
+   * Run a request once budget allows, retrying 429 and 5xx responses
+   * @param request Function performing the request; called again on every retry
+   */
+  async schedule<T>(request: () => Promise<AxiosResponse<T>>): Promise<AxiosResponse<T>> {
+    for (let attempt = 0; ; attempt++) {
+      this.assertBudget();
+
+      try {
+        const response = await request();
+        this.record(response.headers);
+        return response;
+      } catch (error) {
+        if (!isAxiosError(error) || !error.response) {
+          throw error;
+        }
+
+        this.record(error.response.headers);
+        const status = error.response.status;
+
+        if (status === 429) {
+          // A 429 with the budget used up will not clear with a short wait
+          this.assertBudget();
+
+          if (attempt >= this.maxRetries) {
+            const now = Date.now();
+            throw new StravaRateLimitError('short', new Date(this.short?.resetsAt ?? nextShortReset(now)));
+          }
+        } else if (status < 500 || attempt >= this.maxRetries) {
+          throw error;
+        }
+
+        await sleep(this.backoffDelay(attempt));
+      }
+    }
+  }
+
+  /**
+   * Exponential backoff, jittered between half and the full delay
+   */
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+  }
+
+  private assertBudget(now: number = Date.now()): void {
+    const { short, daily } = this.remaining(now);
+
+    const exhausted = (window: RateLimitWindow, remaining: number | null, budget: Budget | null) => {
+      if (budget && remaining !== null && remaining <= this.reserve) {
+        throw new StravaRateLimitError(window, new Date(budget.resetsAt));
+      }
+    };
+
+    exhausted('daily', daily, this.daily);
+    exhausted('short', short, this.short);
+  }
+
+  /**
+   * Drop budgets whose window has rolled over
+   */
+  private expireWindows(now: number): void {
+    if (this.short && now >= this.short.resetsAt) this.short = null;
+    if (this.daily && now >= this.daily.resetsAt) this.daily = null;
+  }
+
+  /**
+   * Update the budgets from Strava's response headers
+   * Read requests report a separate, lower read limit; the tighter one wins
+   */
+  private record(headers: AxiosResponse['headers'] | undefined, now: number = Date.now()): void {
+    if (!headers) return;
+
+    const pairs = [
+      [parsePair(headers['x-ratelimit-limit']), parsePair(headers['x-ratelimit-usage'])],
+      [parsePair(headers['x-readratelimit-limit']), parsePair(headers['x-readratelimit-usage'])]
+    ];
+
+    let short: Budget | null = null;
+    let daily: Budget | null = null;
+
+    for (const [limit, usage] of pairs) {
+      if (!limit || !usage) continue;
+
+      if (!short || limit[0] - usage[0] < short.limit - short.usage) {
+        short = { limit: limit[0], usage: usage[0], resetsAt: nextShortReset(now) };
+      }
+      if (!daily || limit[1] - usage[1] < daily.limit - daily.usage) {
+        daily = { limit: limit[1], usage: usage[1], resetsAt: nextDailyReset(now) };
+      }
+    }
+
+    if (short) this.short = short;
+    if (daily) this.daily = daily;
+  }
+}
+
+/**
+ * Scheduler shared by every StravaClient in the process, so all requests draw on one budget
+ */
+export const stravaRateLimiter = new RateLimitScheduler();
@@ -0,0 +1,42 @@
+import { SummaryActivity } from '@/services/strava/api';
+import { ActivityPlacesById } from './activity-places';
+import { nearestPlace } from './gazetteer';
+
+// Points further than this from any town are labelled with nothing rather than a far-off name
+const MAX_PLACE_DISTANCE_METERS = 15000;
+
+// Looked-up names by rounded position; commutes and out-and-backs hit the same few places
+const placeNames = new Map<string, string | null>();
+
+/**
+ * Name of the nearest town, or null in the middle of nowhere
+ */
+export function placeName(point: [number, number]): string | null {
+  // About 100 m; closer points get the same answer anyway
+  const key = `${point[0].toFixed(3)},${point[1].toFixed(3)}`;
+
+  if (!placeNames.has(key)) {
+    placeNames.set(key, nearestPlace(point, { maxDistance: MAX_PLACE_DISTANCE_METERS })?.place.name ?? null);
+  }
+
+  return placeNames.get(key)!;
+}
+
+/**
+ * Start and end towns for each activity with coordinates
+ * Pass published activities, so names come from the privacy-trimmed points
+ */
+export function getActivityPlaces(activities: SummaryActivity[]): ActivityPlacesById {
+  const places: ActivityPlacesById = {};
+
+  activities.forEach(activity => {
+    const start = activity.start_latlng?.length === 2 ? placeName(activity.start_latlng as [number, number]) : null;
+    const end = activity.end_latlng?.length === 2 ? placeName(activity.end_latlng as [number, number]) : null;
+
+    if (activity.id !== undefined && (start || end)) {
+      places[String(activity.id)] = { start: start ?? undefined, end: end ?? undefined };
+    }
+  });
+
+  return places;
+}
@@ -0,0 +1,134 @@
+import { GeoJSONFeatureCollection } from './activity-processor';
+
+/**
+ * File formats a journey's route can be downloaded in
+ */
+export type RouteExportFormat = 'gpx' | 'kml' | 'geojson';
+
+export const ROUTE_EXPORT_FORMATS: Record<RouteExportFormat, { label: string; contentType: string }> = {
+  gpx: { label: 'GPX', contentType: 'application/gpx+xml' },
+  kml: { label: 'KML', contentType: 'application/vnd.google-earth.kml+xml' },
+  geojson: { label: 'GeoJSON', contentType: 'application/geo+json' }
+};
+
+/**
+ * Which part of a journey to export; without either, the whole journey
+ */
+export interface RouteExportScope {
+  // 1-based, in the order the legs are configured
+  leg?: number;
+  // Local date of the activities, YYYY-MM-DD
+  date?: string;
+}
+
+export function isRouteExportFormat(format: string | null): format is RouteExportFormat {
+  return !!format && Object.keys(ROUTE_EXPORT_FORMATS).includes(format);
+}
+
+/**
+ * Download link for a journey's route, e.g. /journeys/london-to-burgundy/export?format=gpx&leg=2
+ */
+export function routeExportUrl(slug: string, format: RouteExportFormat, scope: RouteExportScope = {}): string {
+  const params = new URLSearchParams({ format });
+  if (scope.leg !== undefined) params.set('leg', String(scope.leg));
+  if (scope.date) params.set('date', scope.date);
+
+  return `/journeys/${slug}/export?${params}`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * GPX 1.1 with a single track and one segment per activity
+ */
+export function toGpx(routes: GeoJSONFeatureCollection, name: string): string {
+  const segments = routes.features.map(feature => {
+    const points = feature.geometry.coordinates
+      .map(([lng, lat]) => `      <trkpt lat="${lat}" lon="${lng}"/>`)
+      .join('\n');
+    return `    <trkseg>\n${points}\n    </trkseg>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Journey Map" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${escapeXml(name)}</name></metadata>`,
+    '  <trk>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...segments,
+    '  </trk>',
+    '</gpx>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * KML with one placemark per activity
+ */
+export function toKml(routes: GeoJSONFeatureCollection, name: string): string {
+  const placemarks = routes.features.map(feature => {
+    const coordinates = feature.geometry.coordinates.map(([lng, lat]) => `${lng},${lat}`).join(' ');
+    const date = feature.properties.start_date_local?.slice(0, 10);
+
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(feature.properties.name || 'Activity')}</name>`,
+      date ? `      <description>${escapeXml(`${feature.properties.sport_type || 'Activity'} on ${date}`)}</description>` : null,
+      `      <LineString><tessellate>1</tessellate><coordinates>${coordinates}</coordinates></LineString>`,
+      '    </Placemark>'
+    ].filter(line => line !== null).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * GeoJSON with just the properties worth sharing; ids and stats flags stay internal
+ */
+export function toGeoJson(routes: GeoJSONFeatureCollection, name: string): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    name,
+    features: routes.features.map(feature => ({
+      type: 'Feature',
+      properties: {
+        name: feature.properties.name,
+        sport_type: feature.properties.sport_type,
+        date: feature.properties.start_date_local,
+        distance: feature.properties.distance,
+        total_elevation_gain: feature.properties.total_elevation_gain
+      },
+      geometry: feature.geometry
+    }))
+  });
+}
+
+/**
+ * Render routes (as drawn on the map by processActivities) in a download format
+ */
+export function exportRoute(routes: GeoJSONFeatureCollection, format: RouteExportFormat, name: string): string {
+  switch (format) {
+    case 'gpx':
+      return toGpx(routes, name);
+    case 'kml':
+      return toKml(routes, name);
+    case 'geojson':
+      return toGeoJson(routes, name);
+  }
+}
@@ -0,0 +1,97 @@
+import axios from 'axios';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { StravaTokens } from './token-store';
+import { getStravaOAuthUrl } from './strava-urls';
+
+// activity:read_all is needed so private and followers-only rides are synced too
+export const STRAVA_SCOPES = ['read', 'activity:read_all'];
+
+// Asked for but not required: profile:read_all exposes the owner's preferred units (miles or kilometers)
+export const OPTIONAL_STRAVA_SCOPES = ['profile:read_all'];
+
+// Cookie holding the CSRF state between the connect redirect and the callback
+export const OAUTH_STATE_COOKIE = 'strava_oauth_state';
+
+/**
+ * Random value tying an OAuth callback to the browser that started the flow
+ */
+export function createOAuthState(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Constant-time string comparison for secrets
+ */
+export function safeEqual(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) return false;
+
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Check the key the blog owner enters to connect or disconnect Strava
+ * Without STRAVA_ADMIN_KEY the check only passes outside production
+ */
+export function isAdminKeyValid(key: string | null | undefined): boolean {
+  const adminKey = process.env.STRAVA_ADMIN_KEY;
+
+  if (!adminKey) {
+    return process.env.NODE_ENV !== 'production';
+  }
+
+  return safeEqual(key, adminKey);
+}
+
+/**
+ * Build the Strava authorization URL the owner is sent to
+ */
+export function getAuthorizeUrl(redirectUri: string, state: string): string {
+  const params = new URLSearchParams({
+    client_id: process.env.STRAVA_CLIENT_ID || '',
+    redirect_uri: redirectUri,
+    response_type: 'code',
+    approval_prompt: 'auto',
+    scope: [...STRAVA_SCOPES, ...OPTIONAL_STRAVA_SCOPES].join(','),
+    state
+  });
+
+  return `${getStravaOAuthUrl()}/authorize?${params.toString()}`;
+}
+
+/**
+ * Whether Strava granted every scope we asked for
+ */
+export function hasRequiredScopes(granted: string | null): boolean {
+  const scopes = (granted || '').split(',');
+  return STRAVA_SCOPES.every(scope => scopes.includes(scope));
+}
+
+/**
+ * Exchange an authorization code from the callback for tokens
+ */
+export async function exchangeAuthorizationCode(code: string): Promise<StravaTokens> {
+  const response = await axios.post(`${getStravaOAuthUrl()}/token`, {
+    client_id: process.env.STRAVA_CLIENT_ID,
+    client_secret: process.env.STRAVA_CLIENT_SECRET,
+    code,
+    grant_type: 'authorization_code',
+  });
+
+  return {
+    accessToken: response.data.access_token,
+    refreshToken: response.data.refresh_token,
+    expiresAt: response.data.expires_at,
+    athlete: response.data.athlete
+  };
+}
+
+/**
+ * Revoke our access on Strava's side
+ */
+export async function deauthorize(accessToken: string): Promise<void> {
+  await axios.post(`${getStravaOAuthUrl()}/deauthorize`, null, {
+    params: { access_token: accessToken }
+  });
+}
@@ -1,114 +1,190 @@
-import axios from 'axios';
-import { SummaryActivity, DetailedActivity } from '@/services/strava/api';
+import axios, { AxiosPromise } from 'axios';
+import {
+  ActivitiesApi,
+  AthletesApi,
+  ActivityStats,
+  Comment,
+  DetailedActivity,
+  DetailedAthlete,
+  SummaryActivity,
+  UpdatableActivity
+} from '@/services/strava/api';
+import { StreamsApi, StreamKeys, StreamSet } from './strava-streams';
+import { Configuration } from '@/services/strava/configuration';
+import { RateLimitScheduler, stravaRateLimiter } from './rate-limiter';
+import { StravaTokens, TokenStore, defaultTokenStore } from './token-store';
+import { getStravaApiUrl, getStravaOAuthUrl } from './strava-urls';
+import { StravaError, toStravaError } from './strava-errors';
+
+// Refresh access tokens this many seconds before Strava says they expire
+const TOKEN_EXPIRY_MARGIN_SECONDS = 5 * 60;
+
+// Refreshes currently in flight, shared by every client using the same token store
+const pendingRefreshes = new WeakMap<TokenStore, Promise<StravaTokens>>();
+
+export interface StravaClientOptions {
+  clientId?: string;
+  clientSecret?: string;
+  // Only used to seed the token store the first time, and never after a disconnect; rotated tokens live in the store
+  refreshToken?: string;
+  rateLimiter?: RateLimitScheduler;
+  tokenStore?: TokenStore;
+  // Base URLs, defaulting to STRAVA_API_URL / STRAVA_OAUTH_URL or the real Strava
+  apiUrl?: string;
+  oauthUrl?: string;
+}
 
 /**
- * Strava API client for handling authentication and API requests
+ * Strip the per-segment and per-lap detail from a detailed activity so it can be stored as a summary
+ */
+export function toSummaryActivity(activity: DetailedActivity): SummaryActivity {
+  const { segment_efforts, splits_metric, splits_standard, laps, best_efforts, ...summary } = activity;
+  return summary;
+}
+
+/**
+ * Strava API client wrapping the generated ActivitiesApi and AthletesApi and the hand-written StreamsApi
+ * with token refresh and rate limiting
  */
 export class StravaClient {
   private clientId: string;
   private clientSecret: string;
   private refreshToken: string;
-  private accessToken: string | null = null;
+  private rateLimiter: RateLimitScheduler;
+  private tokenStore: TokenStore;
+  private oauthUrl: string;
+  private activitiesApi: ActivitiesApi;
+  private athletesApi: AthletesApi;
+  private streamsApi: StreamsApi;
+
+  constructor(options: StravaClientOptions = {}) {
+    this.rateLimiter = options.rateLimiter || stravaRateLimiter;
+    this.tokenStore = options.tokenStore || defaultTokenStore;
+    this.oauthUrl = options.oauthUrl || getStravaOAuthUrl();
 
-  constructor(
-    clientId?: string,
-    clientSecret?: string,
-    refreshToken?: string
-  ) {
     // Use environment variables if not provided
-    this.clientId = clientId || process.env.STRAVA_CLIENT_ID || '';
-    this.clientSecret = clientSecret || process.env.STRAVA_CLIENT_SECRET || '';
-    this.refreshToken = refreshToken || process.env.STRAVA_REFRESH_TOKEN || '';
+    this.clientId = options.clientId || process.env.STRAVA_CLIENT_ID || '';
+    this.clientSecret = options.clientSecret || process.env.STRAVA_CLIENT_SECRET || '';
+    this.refreshToken = options.refreshToken || process.env.STRAVA_REFRESH_TOKEN || '';
 
-    if (!this.clientId || !this.clientSecret || !this.refreshToken) {
-      throw new Error('Missing Strava API credentials. Please set STRAVA_CLIENT_ID, STRAVA_CLIENT_SECRET, and STRAVA_REFRESH_TOKEN environment variables.');
+    if (!this.clientId || !this.clientSecret) {
+      throw new StravaError('auth', 'Missing Strava API credentials. Please set STRAVA_CLIENT_ID and STRAVA_CLIENT_SECRET environment variables.');
     }
+
+    // The generated APIs ask for a token whenever they build a request
+    const configuration = new Configuration({
+      basePath: options.apiUrl || getStravaApiUrl(),
+      accessToken: () => this.getAccessToken()
+    });
+
+    this.activitiesApi = new ActivitiesApi(configuration);
+    this.athletesApi = new AthletesApi(configuration);
+    this.streamsApi = new StreamsApi(configuration);
   }
 
   /**
-   * Get a fresh access token using the refresh token
+   * Get a valid access token, refreshing it only when it is about to expire
+   * @param rejected An access token Strava just rejected; forces a refresh unless it was already replaced
    */
-  private async getAccessToken(): Promise<string> {
-    try {
-      const response = await axios.post('https://www.strava.com/oauth/token', {
-        client_id: this.clientId,
-        client_secret: this.clientSecret,
-        refresh_token: this.refreshToken,
-        grant_type: 'refresh_token',
-      });
-
-      this.accessToken = response.data.access_token;
-      return this.accessToken || "";
-    } catch (error) {
-      console.error('Failed to refresh Strava access token:', error);
-      throw new Error('Failed to authenticate with Strava');
+  private async getAccessToken(rejected?: string): Promise<string> {
+    const tokens = await this.tokenStore.load();
+    const now = Math.floor(Date.now() / 1000);
+
+    if (tokens && tokens.accessToken !== rejected && tokens.expiresAt - TOKEN_EXPIRY_MARGIN_SECONDS > now) {
+      return tokens.accessToken;
     }
+
+    const refreshed = await this.refreshTokens(tokens);
+    return refreshed.accessToken;
   }
 
   /**
-   * Make an authenticated request to the Strava API
+   * Exchange the latest refresh token for a new access token and persist the rotated tokens
+   * Concurrent callers share a single in-flight refresh
    */
-  private async request<T>(
-    method: 'GET' | 'POST' | 'PUT',
-    endpoint: string,
-    data?: any,
-    params?: any
-  ): Promise<T> {
-    // Ensure we have an access token
-    if (!this.accessToken) {
-      await this.getAccessToken();
+  private refreshTokens(current: StravaTokens | null): Promise<StravaTokens> {
+    const pending = pendingRefreshes.get(this.tokenStore);
+    if (pending) {
+      return pending;
     }
 
-    try {
-      const url = `https://www.strava.com/api/v3/${endpoint}`;
-      const headers = {
-        'Authorization': `Bearer ${this.accessToken}`
-      };
-
-      const response = await axios.request<T>({
-        method,
-        url,
-        data,
-        params,
-        headers
-      });
+    const refresh = (async () => {
+      if (!current && await this.tokenStore.isDisconnected()) {
+        throw new StravaError('auth', 'The Strava account was disconnected. Connect it again from /strava.');
+      }
+
+      const refreshToken = current?.refreshToken || this.refreshToken;
+      if (!refreshToken) {
+        throw new StravaError('auth', 'No Strava refresh token available. Set STRAVA_REFRESH_TOKEN or connect a Strava account.');
+      }
+
+      try {
+        const response = await axios.post(`${this.oauthUrl}/token`, {
+          client_id: this.clientId,
+          client_secret: this.clientSecret,
+          refresh_token: refreshToken,
+          grant_type: 'refresh_token',
+        });
+
+        const tokens: StravaTokens = {
+          ...current,
+          accessToken: response.data.access_token,
+          refreshToken: response.data.refresh_token || refreshToken,
+          expiresAt: response.data.expires_at
+        };
 
+        await this.tokenStore.save(tokens);
+        return tokens;
+      } catch (error) {
+        console.error('Failed to refresh Strava access token:', error);
+        // Strava answers a revoked or unknown refresh token with a 400
+        throw toStravaError(error, 'auth');
+      }
+    })();
+
+    pendingRefreshes.set(this.tokenStore, refresh);
+    refresh.finally(() => pendingRefreshes.delete(this.tokenStore)).catch(() => undefined);
+
+    return refresh;
+  }
+
+  /**
+   * Run a generated API call with auth and the shared rate limit budget
+   * The access token is supplied by the Configuration hook; if Strava rejects it,
+   * the token is refreshed and the call retried once
+   */
+  private async request<T>(call: () => AxiosPromise<T>): Promise<T> {
+    try {
+      const response = await this.rateLimiter.schedule(call);
       return response.data;
     } catch (error: any) {
-      // If unauthorized, try refreshing the token once
       if (error.response && error.response.status === 401) {
-        // Token expired, get a fresh one and retry
-        await this.getAccessToken();
-        
-        const url = `https://www.strava.com/api/v3/${endpoint}`;
-        const headers = {
-          'Authorization': `Bearer ${this.accessToken}`
-        };
+        // Force a refresh unless another request already replaced the rejected token
+        const rejected = String(error.config?.headers?.Authorization || '').replace(/^Bearer /, '');
+        await this.getAccessToken(rejected);
 
-        const response = await axios.request<T>({
-          method,
-          url,
-          data,
-          params,
-          headers
+        const response = await this.rateLimiter.schedule(call).catch(retryError => {
+          throw toStravaError(retryError);
         });
-        
         return response.data;
       }
       
-      // Other error, just throw
-      throw error;
+      throw toStravaError(error);
     }
   }
 
   /**
    * Get a list of activities with pagination
+   * @param after Optional epoch timestamp; Strava then only returns newer activities, oldest first
    */
-  async getActivities(perPage: number = 30, page: number = 1): Promise<SummaryActivity[]> {
-    return this.request<SummaryActivity[]>('GET', 'athlete/activities', undefined, {
-      per_page: perPage,
-      page: page
-    });
+  async getActivities(perPage: number = 30, page: number = 1, after?: number): Promise<SummaryActivity[]> {
+    const activities = await this.request(() => this.activitiesApi.getLoggedInAthleteActivities(undefined, after, page, perPage));
+
+    if (!Array.isArray(activities)) {
+      throw new StravaError('invalid_data', 'Strava returned an unexpected activity list');
+    }
+
+    return activities;
   }
 
   /**
@@ -122,7 +198,7 @@ export class StravaClient {
     let hasMoreActivities = true;
 
     while (hasMoreActivities) {
-      const activities = await this.getActivities(perPage, page);
+      const activities = await this.getActivities(perPage, page, after);
       
       if (activities.length === 0) {
         hasMoreActivities = false;
@@ -130,7 +206,7 @@ export class StravaClient {
         // Filter activities by date
         const filteredActivities = activities.filter(activity => {
           const activityTime = new Date(activity.start_date || '').getTime() / 1000;
-          return activityTime >= after && activity.type === 'Ride';
+          return activityTime >= after;
         });
   
         allActivities = [...allActivities, ...filteredActivities];
@@ -153,8 +229,46 @@ export class StravaClient {
   /**
    * Get details of a specific activity
    */
-  async getActivity(id: string | number): Promise<DetailedActivity> {
-    return this.request<DetailedActivity>('GET', `activities/${id}`);
+  async getActivity(id: number): Promise<DetailedActivity> {
+    return this.request(() => this.activitiesApi.getActivityById(id));
+  }
+
+  /**
+   * Get the comments on an activity
+   */
+  async getCommentsByActivityId(id: number, page?: number, perPage?: number, pageSize?: number, afterCursor?: string): Promise<Comment[]> {
+    return this.request(() => this.activitiesApi.getCommentsByActivityId(id, page, perPage, pageSize, afterCursor));
+  }
+
+  /**
+   * Update an activity owned by the authenticated athlete (requires the activity:write scope)
+   */
+  async updateActivityById(id: number, body?: UpdatableActivity): Promise<DetailedActivity> {
+    return this.request(() => this.activitiesApi.updateActivityById(id, body));
+  }
+
+  /**
+   * Get the authenticated athlete
+   */
+  async getLoggedInAthlete(): Promise<DetailedAthlete> {
+    return this.request(() => this.athletesApi.getLoggedInAthlete());
+  }
+
+  /**
+   * Get the activity totals of an athlete; only works for the authenticated athlete
+   */
+  async getStats(id: number): Promise<ActivityStats> {
+    return this.request(() => this.athletesApi.getStats(id));
+  }
+
+  /**
+   * Get the streams (latlng, altitude, time, ...) recorded for an activity, keyed by stream type
+   */
+  async getActivityStreams(
+    id: number,
+    keys: StreamKeys[] = ['latlng', 'altitude', 'time', 'distance']
+  ): Promise<StreamSet> {
+    return this.request(() => this.streamsApi.getActivityStreams(id, keys));
   }
 
   /**
@@ -0,0 +1,85 @@
+import axios from 'axios';
+import { Fault } from '@/services/strava/api';
+
+/**
+ * What went wrong talking to Strava
+ * - auth: missing credentials, or Strava rejected our tokens
+ * - rate_limit: the request budget is exhausted
+ * - network: Strava could not be reached or answered with a server error
+ * - invalid_data: Strava (or the local store) returned something we can't use
+ */
+export type StravaErrorKind = 'auth' | 'rate_limit' | 'network' | 'invalid_data';
+
+/**
+ * Which Strava rate limit window ran out
+ */
+export type RateLimitWindow = 'short' | 'daily';
+
+/**
+ * Error raised for any failed Strava request, carrying Strava's Fault body when there was one
+ */
+export class StravaError extends Error {
+  constructor(public kind: StravaErrorKind, msg: string, public fault?: Fault, public status?: number) {
+    super(msg);
+    this.name = 'StravaError';
+  }
+}
+
+/**
+ * Thrown when the Strava request budget is exhausted, either locally
+ * (the tracked usage reached the limit) or because Strava kept answering 429
+ */
+export class StravaRateLimitError extends StravaError {
+  constructor(public window: RateLimitWindow, public resetsAt: Date, msg?: string) {
+    super('rate_limit', msg || `Strava ${window === 'daily' ? 'daily' : '15-minute'} rate limit exhausted until ${resetsAt.toISOString()}`);
+    this.name = 'StravaRateLimitError';
+  }
+}
+
+/**
+ * How fresh the journey data handed to the page is
+ * - live: the store is in sync with Strava (or no sync was due)
+ * - stale: the last sync failed, so the last good copy is shown
+ * - unavailable: nothing could be loaded at all
+ */
+export interface JourneyDataStatus {
+  state: 'live' | 'stale' | 'unavailable';
+  // When the data shown was last synced from Strava
+  lastSyncAt: string | null;
+  error?: StravaErrorKind;
+}
+
+function isFault(data: unknown): data is Fault {
+  return typeof data === 'object' && data !== null && ('message' in data || 'errors' in data);
+}
+
+function kindForStatus(status: number, fallback: StravaErrorKind): StravaErrorKind {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'network';
+  return fallback;
+}
+
+/**
+ * Classify any error thrown while talking to Strava
+ * @param fallback Kind to use when the error doesn't say otherwise, e.g. 'auth' for a failed token refresh
+ */
+export function toStravaError(error: unknown, fallback: StravaErrorKind = 'invalid_data'): StravaError {
+  if (error instanceof StravaError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (!error.response) {
+      return new StravaError('network', `Could not reach Strava: ${error.message}`);
+    }
+
+    const { status, data } = error.response;
+    const fault = isFault(data) ? data : undefined;
+    const detail = fault?.message || error.message;
+
+    return new StravaError(kindForStatus(status, fallback), `Strava request failed (${status}): ${detail}`, fault, status);
+  }
+
+  return new StravaError(fallback, error instanceof Error ? error.message : String(error));
+}
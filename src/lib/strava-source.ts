@@ -0,0 +1,58 @@
+import { SummaryActivity } from '@/services/strava/api';
+import { StreamSet } from './strava-streams';
+import { ActivitySource, isStravaActivity } from './activity-source';
+import { ActivityStore } from './activity-store';
+import { isSyncDue, syncActivities } from './activity-sync';
+import { StravaClient } from './strava-client';
+import { StreamCache, loadActivityStreams } from './stream-cache';
+
+/**
+ * Activities synced from Strava into the local activity store
+ */
+export class StravaActivitySource implements ActivitySource {
+  name = 'strava';
+  private store: ActivityStore;
+  private streamCache: StreamCache;
+  private createClient: () => StravaClient;
+
+  constructor(
+    store: ActivityStore = new ActivityStore(),
+    streamCache: StreamCache = new StreamCache(),
+    // Clients are only created when Strava is actually called, so missing credentials don't break reads
+    createClient: () => StravaClient = () => new StravaClient()
+  ) {
+    this.store = store;
+    this.streamCache = streamCache;
+    this.createClient = createClient;
+  }
+
+  /**
+   * Sync the store with Strava if it is stale
+   */
+  async refresh(after: number): Promise<void> {
+    if (isSyncDue(await this.store.read(), after)) {
+      await syncActivities(this.store, this.createClient(), after);
+    }
+  }
+
+  async lastRefreshedAt(): Promise<string | null> {
+    return (await this.store.read()).lastSyncAt;
+  }
+
+  getActivities(after: number): Promise<SummaryActivity[]> {
+    return this.store.getActivities(after);
+  }
+
+  /**
+   * Full-resolution geometry costs one request per activity, so it is opt-in (STRAVA_FETCH_STREAMS)
+   */
+  async getStreams(activities: SummaryActivity[]): Promise<Record<number, StreamSet>> {
+    const stravaActivities = activities.filter(isStravaActivity);
+
+    if (process.env.STRAVA_FETCH_STREAMS !== 'true' || stravaActivities.length === 0) {
+      return {};
+    }
+
+    return loadActivityStreams(stravaActivities, this.streamCache, this.createClient);
+  }
+}
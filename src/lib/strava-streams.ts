@@ -0,0 +1,79 @@
+import axios, { AxiosPromise } from 'axios';
+import { Configuration } from '@/services/strava/configuration';
+import { BASE_PATH } from '@/services/strava/base';
+import { setOAuthToObject } from '@/services/strava/common';
+
+/**
+ * Activity streams, which the bundled OpenAPI spec leaves out, so the generated client
+ * has no call or models for them. Shapes follow https://developers.strava.com/docs/reference/#api-models-StreamSet
+ */
+
+/**
+ * The stream types Strava can record for an activity
+ */
+export type StreamKeys =
+  | 'time'
+  | 'distance'
+  | 'latlng'
+  | 'altitude'
+  | 'velocity_smooth'
+  | 'heartrate'
+  | 'cadence'
+  | 'watts'
+  | 'temp'
+  | 'moving'
+  | 'grade_smooth';
+
+/**
+ * One value per recorded point, e.g. every altitude along the ride
+ */
+export interface Stream<T> {
+  // Points recorded, before any downsampling to the requested resolution
+  original_size?: number;
+  resolution?: 'low' | 'medium' | 'high';
+  // What the points are spaced by when downsampled
+  series_type?: 'distance' | 'time';
+  data?: T[];
+}
+
+/**
+ * An activity's streams keyed by type, as returned with key_by_type=true
+ */
+export interface StreamSet {
+  // Seconds since the start
+  time?: Stream<number>;
+  // Meters since the start
+  distance?: Stream<number>;
+  // [latitude, longitude]
+  latlng?: Stream<number[]>;
+  // Meters
+  altitude?: Stream<number>;
+  // Meters per second
+  velocity_smooth?: Stream<number>;
+  heartrate?: Stream<number>;
+  cadence?: Stream<number>;
+  watts?: Stream<number>;
+  // Degrees Celsius
+  temp?: Stream<number>;
+  moving?: Stream<boolean>;
+  // Percent
+  grade_smooth?: Stream<number>;
+}
+
+/**
+ * GET /activities/{id}/streams, authenticated through the same Configuration as the generated APIs
+ */
+export class StreamsApi {
+  constructor(private configuration: Configuration) {}
+
+  async getActivityStreams(id: number, keys: StreamKeys[]): AxiosPromise<StreamSet> {
+    const headers: Record<string, string> = {};
+    await setOAuthToObject(headers, 'strava_oauth', [], this.configuration);
+
+    return axios.get<StreamSet>(`${this.configuration.basePath || BASE_PATH}/activities/${encodeURIComponent(String(id))}/streams`, {
+      ...this.configuration.baseOptions,
+      params: { keys: keys.join(','), key_by_type: true },
+      headers: { ...headers, ...this.configuration.baseOptions?.headers }
+    });
+  }
+}
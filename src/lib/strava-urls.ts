@@ -0,0 +1,12 @@
+/**
+ * Base URLs for the Strava REST API and OAuth endpoints
+ * Set STRAVA_API_URL and STRAVA_OAUTH_URL to point the site at the local mock server
+ */
+
+export function getStravaApiUrl(): string {
+  return (process.env.STRAVA_API_URL || 'https://www.strava.com/api/v3').replace(/\/+$/, '');
+}
+
+export function getStravaOAuthUrl(): string {
+  return (process.env.STRAVA_OAUTH_URL || 'https://www.strava.com/oauth').replace(/\/+$/, '');
+}
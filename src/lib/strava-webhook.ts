@@ -0,0 +1,128 @@
+import { SummaryActivity } from '@/services/strava/api';
+import { ActivityStore } from './activity-store';
+import { StravaClient, toSummaryActivity } from './strava-client';
+import { StreamCache } from './stream-cache';
+import { TokenStore } from './token-store';
+
+/**
+ * Event pushed by a Strava webhook subscription
+ * See https://developers.strava.com/docs/webhooks/
+ */
+export interface StravaWebhookEvent {
+  object_type: 'activity' | 'athlete';
+  object_id: number;
+  aspect_type: 'create' | 'update' | 'delete';
+  updates?: Record<string, string>;
+  owner_id: number;
+  subscription_id: number;
+  event_time: number;
+}
+
+export interface WebhookDependencies {
+  store: ActivityStore;
+  tokenStore: TokenStore;
+  streamCache: StreamCache;
+  createClient: () => StravaClient;
+}
+
+/**
+ * What changed while handling an event, so the caller can revalidate the right pages
+ */
+export interface WebhookResult {
+  handled: boolean;
+  // Activities whose stored copy was added, changed or removed (before and after the change)
+  changedActivities: SummaryActivity[];
+}
+
+/**
+ * Check the subscription handshake sent when the webhook is registered
+ * @returns The challenge to echo back, or null if the verify token does not match
+ */
+export function verifySubscription(params: URLSearchParams): string | null {
+  const verifyToken = process.env.STRAVA_WEBHOOK_VERIFY_TOKEN;
+
+  if (!verifyToken || params.get('hub.mode') !== 'subscribe' || params.get('hub.verify_token') !== verifyToken) {
+    return null;
+  }
+
+  return params.get('hub.challenge');
+}
+
+/**
+ * Whether a posted body has the shape of a webhook event, before any work is scheduled for it
+ */
+export function isWebhookEvent(body: unknown): body is StravaWebhookEvent {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return false;
+  }
+
+  const event = body as Record<string, unknown>;
+  return typeof event.object_type === 'string'
+    && typeof event.aspect_type === 'string'
+    && typeof event.object_id === 'number';
+}
+
+/**
+ * Whether an event belongs to our subscription and the connected athlete
+ */
+async function isOwnEvent(event: StravaWebhookEvent, tokenStore: TokenStore): Promise<boolean> {
+  const subscriptionId = process.env.STRAVA_WEBHOOK_SUBSCRIPTION_ID;
+  if (subscriptionId && String(event.subscription_id) !== subscriptionId) {
+    return false;
+  }
+
+  const tokens = await tokenStore.load();
+  const ownerId = process.env.STRAVA_ATHLETE_ID || tokens?.athlete?.id;
+
+  return !ownerId || String(event.owner_id) === String(ownerId);
+}
+
+/**
+ * Apply a webhook event to the local activity data
+ */
+export async function handleWebhookEvent(
+  event: StravaWebhookEvent,
+  { store, tokenStore, streamCache, createClient }: WebhookDependencies
+): Promise<WebhookResult> {
+  if (!(await isOwnEvent(event, tokenStore))) {
+    console.warn(`Ignoring Strava webhook event for owner ${event.owner_id}`);
+    return { handled: false, changedActivities: [] };
+  }
+
+  if (event.object_type === 'athlete') {
+    if (event.updates?.authorized !== 'false') {
+      return { handled: false, changedActivities: [] };
+    }
+
+    // The athlete revoked access - Strava requires us to drop their data too
+    const removed = await store.getActivities();
+    await store.remove(removed.map(activity => activity.id!));
+    await Promise.all(removed.map(activity => streamCache.remove(activity.id!)));
+    await tokenStore.clear();
+
+    console.log('Strava athlete deauthorized, cleared tokens and activities');
+    return { handled: true, changedActivities: removed };
+  }
+
+  const state = await store.read();
+  const previous = state.activities[String(event.object_id)];
+
+  // Edits such as cropping change the recorded streams, so drop any cached copy
+  await streamCache.remove(event.object_id);
+
+  if (event.aspect_type === 'delete') {
+    await store.remove([event.object_id]);
+    return { handled: true, changedActivities: previous ? [previous] : [] };
+  }
+
+  // Create and update events only carry the id, so fetch the latest copy
+  const activity = toSummaryActivity(await createClient().getActivity(event.object_id));
+
+  // Every activity is stored; journeys apply their own sport type filters when reading
+  await store.upsert([activity]);
+
+  return {
+    handled: true,
+    changedActivities: previous ? [previous, activity] : [activity]
+  };
+}
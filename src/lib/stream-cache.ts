@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { SummaryActivity } from '@/services/strava/api';
+import { StreamKeys, StreamSet } from './strava-streams';
+import { dataPath } from './data-directory';
+import { StravaClient } from './strava-client';
+import { StravaRateLimitError } from './strava-errors';
+
+/**
+ * Streams fetched for every activity: what the map and elevation profiles draw, nothing more
+ */
+export const ACTIVITY_STREAM_KEYS: StreamKeys[] = [
+  'latlng',
+  'altitude',
+  'distance'
+];
+
+/**
+ * File cache of activity streams, one JSON file per activity
+ * Streams never change unless the activity is edited, so entries are kept until invalidated
+ */
+export class StreamCache {
+  private directory: string;
+
+  constructor(directory: string = dataPath('strava', 'streams')) {
+    this.directory = directory;
+  }
+
+  private filePath(id: number | string): string {
+    return join(this.directory, `${id}.json`);
+  }
+
+  async get(id: number | string): Promise<StreamSet | null> {
+    try {
+      const contents = await fs.readFile(this.filePath(id), 'utf8');
+      return JSON.parse(contents) as StreamSet;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async set(id: number | string, streams: StreamSet): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.filePath(id), JSON.stringify(streams), 'utf8');
+  }
+
+  async remove(id: number | string): Promise<void> {
+    await fs.rm(this.filePath(id), { force: true });
+  }
+}
+
+/**
+ * Load streams for the given activities, fetching any that are not cached yet
+ * Fetching stops early once the rate limit budget runs out; the rest are picked up next time
+ *
+ * @returns Streams keyed by activity id
+ */
+export async function loadActivityStreams(
+  activities: SummaryActivity[],
+  cache: StreamCache,
+  createClient: () => StravaClient
+): Promise<Record<number, StreamSet>> {
+  const streams: Record<number, StreamSet> = {};
+  let client: StravaClient | null = null;
+
+  for (const activity of activities) {
+    if (activity.id === undefined) continue;
+
+    const cached = await cache.get(activity.id);
+    if (cached) {
+      streams[activity.id] = cached;
+      continue;
+    }
+
+    try {
+      client = client || createClient();
+      const fetched = await client.getActivityStreams(activity.id, ACTIVITY_STREAM_KEYS);
+      await cache.set(activity.id, fetched);
+      streams[activity.id] = fetched;
+    } catch (error) {
+      if (error instanceof StravaRateLimitError) {
+        console.warn(`Stopped fetching activity streams: ${error.message}`);
+        break;
+      }
+      console.error(`Failed to fetch streams for activity ${activity.id}:`, error);
+    }
+  }
+
+  return streams;
+}
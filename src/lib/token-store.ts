@@ -0,0 +1,123 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { SummaryAthlete } from '@/services/strava/api';
+import { dataPath } from './data-directory';
+
+/**
+ * Strava OAuth tokens as persisted between requests
+ */
+export interface StravaTokens {
+  accessToken: string;
+  // Strava rotates refresh tokens, so the latest one must always be kept
+  refreshToken: string;
+  // Epoch seconds at which the access token expires
+  expiresAt: number;
+  // Scopes granted when the account was connected
+  scope?: string;
+  // The connected athlete, as returned by the authorization-code exchange
+  athlete?: SummaryAthlete;
+}
+
+/**
+ * Persistence for Strava tokens; swap the implementation to keep them elsewhere
+ */
+export interface TokenStore {
+  load(): Promise<StravaTokens | null>;
+  save(tokens: StravaTokens): Promise<void>;
+  // Forget the tokens and remember the account was disconnected, until new tokens are saved
+  clear(): Promise<void>;
+  // Whether the account was disconnected, so STRAVA_REFRESH_TOKEN must not quietly reconnect it
+  isDisconnected(): Promise<boolean>;
+}
+
+/**
+ * What the token file holds once the account is disconnected
+ */
+interface DisconnectedMarker {
+  disconnectedAt: string;
+}
+
+/**
+ * Keeps tokens in a JSON file in the data directory
+ */
+export class FileTokenStore implements TokenStore {
+  private filePath: string;
+
+  constructor(filePath: string = dataPath('strava', 'tokens.json')) {
+    this.filePath = filePath;
+  }
+
+  private async read(): Promise<StravaTokens | DisconnectedMarker | null> {
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(contents) as StravaTokens | DisconnectedMarker;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async write(contents: StravaTokens | DisconnectedMarker): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+
+    // Write to a temporary file first so a crash never loses the only valid refresh token
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(contents, null, 2), { encoding: 'utf8', mode: 0o600 });
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  async load(): Promise<StravaTokens | null> {
+    const stored = await this.read();
+    return stored && !('disconnectedAt' in stored) ? stored : null;
+  }
+
+  async save(tokens: StravaTokens): Promise<void> {
+    await this.write(tokens);
+  }
+
+  async clear(): Promise<void> {
+    await this.write({ disconnectedAt: new Date().toISOString() });
+  }
+
+  async isDisconnected(): Promise<boolean> {
+    const stored = await this.read();
+    return !!stored && 'disconnectedAt' in stored;
+  }
+}
+
+/**
+ * Keeps tokens in memory only, useful for scripts and tests
+ */
+export class MemoryTokenStore implements TokenStore {
+  private tokens: StravaTokens | null;
+  private disconnected = false;
+
+  constructor(tokens: StravaTokens | null = null) {
+    this.tokens = tokens;
+  }
+
+  async load(): Promise<StravaTokens | null> {
+    return this.tokens;
+  }
+
+  async save(tokens: StravaTokens): Promise<void> {
+    this.tokens = tokens;
+    this.disconnected = false;
+  }
+
+  async clear(): Promise<void> {
+    this.tokens = null;
+    this.disconnected = true;
+  }
+
+  async isDisconnected(): Promise<boolean> {
+    return this.disconnected;
+  }
+}
+
+/**
+ * Token store used by StravaClient unless another one is passed in
+ */
+export const defaultTokenStore: TokenStore = new FileTokenStore();
@@ -0,0 +1,271 @@
+import { XMLParser } from 'fast-xml-parser';
+import { SportType, SummaryActivity } from '@/services/strava/api';
+import { StreamSet } from './strava-streams';
+import { haversineDistance, pathDistance, thinPath } from './geo';
+import { encodePolyline } from './polyline';
+
+/**
+ * A recorded point from a GPX or TCX file
+ */
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  elevation?: number;
+  time?: Date;
+}
+
+/**
+ * The parts of a track file we use, before it is turned into an activity
+ */
+export interface Track {
+  name?: string;
+  // The file's own activity type, e.g. "cycling" in GPX or "Biking" in TCX
+  type?: string;
+  points: TrackPoint[];
+}
+
+// Climbs smaller than this are treated as GPS/barometer noise
+const ELEVATION_NOISE_METERS = 3;
+
+// Summary polylines keep a point at most every this many meters, like Strava's
+const SUMMARY_POINT_SPACING_METERS = 100;
+
+// Streams keep a point at most every this many meters; devices log every second or two,
+// far more than the map and elevation profile draw, and every point is sent to the browser
+const STREAM_POINT_SPACING_METERS = 25;
+
+// Slower than this (m/s) between two points counts as stopped
+const MOVING_SPEED_THRESHOLD = 0.5;
+
+// File activity types that aren't already Strava sport type names
+const TRACK_TYPE_SPORT_TYPES: Record<string, SportType> = {
+  '1': 'Ride',
+  '9': 'Run',
+  'biking': 'Ride',
+  'cycling': 'Ride',
+  'road_biking': 'Ride',
+  'gravel_cycling': 'GravelRide',
+  'mountain_biking': 'MountainBikeRide',
+  'e_bike_fitness': 'EBikeRide',
+  'running': 'Run',
+  'hiking': 'Hike',
+  'walking': 'Walk'
+};
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  removeNSPrefix: true,
+  parseTagValue: false
+});
+
+/**
+ * Always get an array, however many children fast-xml-parser found
+ */
+function asArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'object' && value !== null ? Number((value as any)['#text']) : Number(value);
+  return value === undefined || Number.isNaN(number) ? undefined : number;
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string') return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'object' && value !== null && typeof (value as any)['#text'] === 'string') {
+    return (value as any)['#text'].trim() || undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Parse a GPX 1.0/1.1 file; every track segment (or, without tracks, every route) is joined into one track
+ */
+export function parseGpx(xml: string): Track {
+  const gpx = parser.parse(xml).gpx;
+  if (!gpx) {
+    throw new Error('Not a GPX file');
+  }
+
+  const tracks = asArray<any>(gpx.trk);
+  const trackPoints = tracks
+    .flatMap(track => asArray<any>(track.trkseg))
+    .flatMap(segment => asArray<any>(segment.trkpt));
+
+  // Planned routes are often saved as a <rte> rather than a recorded track
+  const routePoints = trackPoints.length > 0 ? [] : asArray<any>(gpx.rte).flatMap(route => asArray<any>(route.rtept));
+
+  const points = [...trackPoints, ...routePoints]
+    .map(point => ({
+      latitude: Number(point.lat),
+      longitude: Number(point.lon),
+      elevation: toNumber(point.ele),
+      time: toDate(point.time)
+    }));
+
+  return {
+    name: toText(tracks[0]?.name) || toText(asArray<any>(gpx.rte)[0]?.name) || toText(gpx.metadata?.name),
+    type: toText(tracks[0]?.type),
+    points: points.filter(point => !Number.isNaN(point.latitude) && !Number.isNaN(point.longitude))
+  };
+}
+
+/**
+ * Parse a Garmin TCX file; only the first activity is used, and points without a position are skipped
+ */
+export function parseTcx(xml: string): Track {
+  const activities = parser.parse(xml).TrainingCenterDatabase?.Activities;
+  if (!activities) {
+    throw new Error('Not a TCX file');
+  }
+
+  const activity = asArray<any>(activities.Activity)[0];
+  const points = asArray<any>(activity?.Lap)
+    .flatMap(lap => asArray<any>(lap.Track))
+    .flatMap(track => asArray<any>(track.Trackpoint))
+    .filter(point => point.Position)
+    .map(point => ({
+      latitude: Number(point.Position.LatitudeDegrees),
+      longitude: Number(point.Position.LongitudeDegrees),
+      elevation: toNumber(point.AltitudeMeters),
+      time: toDate(point.Time)
+    }));
+
+  return {
+    name: toText(activity?.Notes),
+    type: activity?.Sport,
+    points: points.filter(point => !Number.isNaN(point.latitude) && !Number.isNaN(point.longitude))
+  };
+}
+
+/**
+ * Map a file's activity type to a Strava sport type
+ */
+export function toSportType(type: string | undefined, fallback: SportType = 'Ride'): SportType {
+  if (!type) return fallback;
+
+  const key = type.trim().toLowerCase();
+  const sportType = Object.values(SportType).find(value => value.toLowerCase() === key);
+
+  return TRACK_TYPE_SPORT_TYPES[key] || sportType || fallback;
+}
+
+/**
+ * Total climbing, ignoring wobbles smaller than the noise threshold
+ */
+export function elevationGain(elevations: number[]): number {
+  let gain = 0;
+  let reference = elevations[0];
+
+  elevations.forEach(elevation => {
+    if (elevation - reference >= ELEVATION_NOISE_METERS) {
+      gain += elevation - reference;
+      reference = elevation;
+    } else if (elevation < reference) {
+      reference = elevation;
+    }
+  });
+
+  return gain;
+}
+
+/**
+ * Indexes of the points to keep so consecutive ones are at least `spacing` meters apart along the track, keeping both ends
+ */
+function thinIndexes(cumulativeDistance: number[], spacing: number): number[] {
+  const kept = [0];
+  for (let i = 1; i < cumulativeDistance.length - 1; i++) {
+    if (cumulativeDistance[i] - cumulativeDistance[kept[kept.length - 1]] >= spacing) {
+      kept.push(i);
+    }
+  }
+  if (cumulativeDistance.length > 1) {
+    kept.push(cumulativeDistance.length - 1);
+  }
+  return kept;
+}
+
+/**
+ * Normalise a parsed track into the same shape as a Strava summary activity, plus its streams
+ * Track files carry no timezone, so start_date_local is left in UTC
+ *
+ * @param id Activity id to use; file activities use negative ids so they never clash with Strava
+ * @param externalId Where the activity came from, e.g. the file name
+ */
+export function trackToActivity(
+  track: Track,
+  id: number,
+  externalId: string,
+  defaultSportType: SportType = 'Ride'
+): { activity: SummaryActivity; streams: StreamSet } {
+  const latlng = track.points.map(point => [point.latitude, point.longitude] as [number, number]);
+  const elevations = track.points.map(point => point.elevation).filter((elevation): elevation is number => elevation !== undefined);
+  const times = track.points.map(point => point.time?.getTime()).filter((time): time is number => time !== undefined);
+
+  const cumulativeDistance: number[] = [];
+  let movingTime = 0;
+  latlng.forEach((point, i) => {
+    const step = i > 0 ? haversineDistance(latlng[i - 1], point) : 0;
+    cumulativeDistance.push((cumulativeDistance[i - 1] || 0) + step);
+
+    const from = track.points[i - 1]?.time?.getTime();
+    const to = track.points[i].time?.getTime();
+    if (from !== undefined && to !== undefined && to > from && step / ((to - from) / 1000) >= MOVING_SPEED_THRESHOLD) {
+      movingTime += (to - from) / 1000;
+    }
+  });
+
+  const distance = pathDistance(latlng);
+  const startTime = times.length > 0 ? new Date(times[0]).toISOString() : undefined;
+  const elapsedTime = times.length > 1 ? Math.round((times[times.length - 1] - times[0]) / 1000) : undefined;
+  const sportType = toSportType(track.type, defaultSportType);
+
+  const activity: SummaryActivity = {
+    id,
+    external_id: externalId,
+    name: track.name || externalId.replace(/\.(gpx|tcx)$/i, ''),
+    sport_type: sportType,
+    start_date: startTime,
+    start_date_local: startTime,
+    distance,
+    elapsed_time: elapsedTime,
+    moving_time: times.length > 1 ? Math.round(movingTime) : undefined,
+    total_elevation_gain: elevations.length > 0 ? elevationGain(elevations) : undefined,
+    // Tracks run to hundreds of thousands of points, too many to spread into Math.max
+    elev_high: elevations.length > 0 ? elevations.reduce((high, elevation) => Math.max(high, elevation)) : undefined,
+    elev_low: elevations.length > 0 ? elevations.reduce((low, elevation) => Math.min(low, elevation)) : undefined,
+    average_speed: movingTime > 0 ? distance / movingTime : undefined,
+    start_latlng: latlng[0],
+    end_latlng: latlng[latlng.length - 1],
+    map: {
+      summary_polyline: encodePolyline(thinPath(latlng, SUMMARY_POINT_SPACING_METERS))
+    }
+  };
+
+  // The summary above is worked out from every point; only the streams are thinned
+  const kept = thinIndexes(cumulativeDistance, STREAM_POINT_SPACING_METERS);
+  const pick = <T>(values: T[]) => kept.map(i => values[i]);
+
+  const streams: StreamSet = {
+    latlng: { data: pick(latlng), series_type: 'distance', original_size: latlng.length, resolution: 'high' },
+    distance: { data: pick(cumulativeDistance), series_type: 'distance', original_size: latlng.length, resolution: 'high' }
+  };
+
+  // Altitude and time only line up with latlng when every point has them
+  if (elevations.length === latlng.length) {
+    streams.altitude = { data: pick(elevations), series_type: 'distance', original_size: latlng.length, resolution: 'high' };
+  }
+  if (times.length === latlng.length) {
+    streams.time = { data: pick(times).map(time => Math.round((time - times[0]) / 1000)), series_type: 'distance', original_size: latlng.length, resolution: 'high' };
+  }
+
+  return { activity, streams };
+}
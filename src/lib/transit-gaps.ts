@@ -0,0 +1,123 @@
+import { promises as fs } from 'fs';
+import { SummaryActivity } from '@/services/strava/api';
+import { activityTimestamp } from './activity-store';
+import { dataPath } from './data-directory';
+import { haversineDistance } from './geo';
+import { isOnLand } from './land';
+
+/**
+ * How we got between two activities; 'transit' when it isn't known
+ */
+export type TransportMode = 'ferry' | 'train' | 'bus' | 'car' | 'flight' | 'transit';
+
+/**
+ * A jump between one activity's end and the next one's start, drawn as a connector
+ */
+export interface TransitGap {
+  // Id of the activity the gap follows
+  afterActivityId: number;
+  from: [number, number];
+  to: [number, number];
+  // Straight-line meters
+  distance: number;
+  mode: TransportMode;
+  // Optional caption, e.g. "Eurostar"
+  label?: string;
+  // Whether the mode was guessed rather than set in transit.json
+  inferred: boolean;
+}
+
+/**
+ * Manually set transport for the gap after an activity
+ */
+export interface TransitOverride {
+  mode: TransportMode;
+  label?: string;
+}
+
+/**
+ * Transit overrides keyed by the id of the activity the gap follows
+ */
+export type TransitOverrides = Record<string, TransitOverride>;
+
+// Jumps shorter than this are privacy trimming or a ride recorded in two parts
+const MIN_GAP_METERS = 5000;
+
+// Nobody takes a ferry or train this far between two rides
+const FLIGHT_METERS = 1000 * 1000;
+
+// Points sampled along a gap's straight line to tell a sea crossing from an overland one
+const WATER_SAMPLES = 9;
+
+/**
+ * Read the manual transit modes, e.g. _data/transit.json:
+ *
+ *   { "12345678": { "mode": "train", "label": "TGV to Dijon" } }
+ *
+ * An entry also forces a connector after that activity when the gap is shorter than the threshold.
+ */
+export async function loadTransitOverrides(filePath: string = dataPath('transit.json')): Promise<TransitOverrides> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as TransitOverrides;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Guess the transport from the gap alone: a flight if it is very long, a ferry if most of
+ * the straight line between the ends is over water, otherwise unknown
+ */
+export function inferTransportMode(from: [number, number], to: [number, number]): TransportMode {
+  if (haversineDistance(from, to) >= FLIGHT_METERS) {
+    return 'flight';
+  }
+
+  // Only interior points: both ends are on (or right by) the shore
+  let overWater = 0;
+  for (let i = 1; i <= WATER_SAMPLES; i++) {
+    const t = i / (WATER_SAMPLES + 1);
+    const point: [number, number] = [from[0] + t * (to[0] - from[0]), from[1] + t * (to[1] - from[1])];
+    if (!isOnLand(point)) overWater++;
+  }
+
+  return overWater > WATER_SAMPLES / 2 ? 'ferry' : 'transit';
+}
+
+/**
+ * Find the jumps between consecutive activities
+ * Activities without start and end points (e.g. indoor rides) are skipped over
+ *
+ * @param activities The published activities, so gaps start and end at the trimmed points
+ * @param overrides Manually set modes, keyed by the id of the activity before the gap
+ */
+export function findTransitGaps(activities: SummaryActivity[], overrides: TransitOverrides = {}): TransitGap[] {
+  const located = activities
+    .filter(activity => activity.id !== undefined && activity.start_latlng?.length === 2 && activity.end_latlng?.length === 2)
+    .sort((a, b) => activityTimestamp(a) - activityTimestamp(b));
+
+  return located.slice(1).flatMap((next, i) => {
+    const previous = located[i];
+    const from = previous.end_latlng as [number, number];
+    const to = next.start_latlng as [number, number];
+    const distance = haversineDistance(from, to);
+    const override = overrides[String(previous.id)];
+
+    if (!override && distance < MIN_GAP_METERS) {
+      return [];
+    }
+
+    return [{
+      afterActivityId: previous.id!,
+      from,
+      to,
+      distance,
+      mode: override?.mode || inferTransportMode(from, to),
+      label: override?.label,
+      inferred: !override
+    }];
+  });
+}
@@ -0,0 +1,33 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { dataPath } from './data-directory';
+import { isUnitSystem, UnitSystem } from './units';
+
+/**
+ * Read the site's default units, e.g. _data/units.json:
+ *
+ *   { "system": "imperial" }
+ *
+ * Written from the athlete's Strava preference when the account is connected, and safe to edit by hand.
+ * Kept apart from the tokens so rendering a page never reads them. Readers can switch for themselves;
+ * their choice is kept in the browser.
+ */
+export async function loadDefaultUnitSystem(filePath: string = dataPath('units.json')): Promise<UnitSystem> {
+  try {
+    const { system } = JSON.parse(await fs.readFile(filePath, 'utf8')) as { system?: string };
+    return isUnitSystem(system) ? system : 'metric';
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      console.warn('Could not read the default units:', error);
+    }
+    return 'metric';
+  }
+}
+
+/**
+ * Set the site's default units
+ */
+export async function saveDefaultUnitSystem(system: UnitSystem, filePath: string = dataPath('units.json')): Promise<void> {
+  await fs.mkdir(dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify({ system }, null, 2), 'utf8');
+}
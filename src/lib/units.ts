@@ -0,0 +1,65 @@
+import { DetailedAthleteMeasurementPreferenceEnum } from '@/services/strava/api';
+
+/**
+ * How distances, elevations and speeds are shown
+ */
+export type UnitSystem = 'metric' | 'imperial';
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'imperial'];
+
+// Short names for the toggle, e.g. "km" / "mi"
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  metric: 'km',
+  imperial: 'mi'
+};
+
+const METERS_PER_MILE = 1609.344;
+const METERS_PER_FOOT = 0.3048;
+
+export function isUnitSystem(value: unknown): value is UnitSystem {
+  return UNIT_SYSTEMS.includes(value as UnitSystem);
+}
+
+/**
+ * The unit system matching a Strava athlete's measurement preference ("feet" or "meters")
+ */
+export function unitSystemFor(measurementPreference: DetailedAthleteMeasurementPreferenceEnum | string | undefined): UnitSystem {
+  return measurementPreference === 'feet' ? 'imperial' : 'metric';
+}
+
+/**
+ * "12.3 km" or "7.6 mi"
+ */
+export function formatDistance(meters: number | undefined, system: UnitSystem, decimals: number = 1): string {
+  const value = (meters || 0) / (system === 'imperial' ? METERS_PER_MILE : 1000);
+  return value.toFixed(decimals) + (system === 'imperial' ? ' mi' : ' km');
+}
+
+/**
+ * "1,234 m" or "4,049 ft"
+ */
+export function formatElevation(meters: number | undefined, system: UnitSystem): string {
+  const value = (meters || 0) / (system === 'imperial' ? METERS_PER_FOOT : 1);
+  return Math.round(value).toLocaleString() + (system === 'imperial' ? ' ft' : ' m');
+}
+
+/**
+ * "18.2 km/h" or "11.3 mph", from meters per second; a dash without any speed
+ */
+export function formatSpeed(metersPerSecond: number | undefined, system: UnitSystem): string {
+  if (!metersPerSecond || metersPerSecond <= 0) return '–';
+
+  const value = metersPerSecond * 3600 / (system === 'imperial' ? METERS_PER_MILE : 1000);
+  return value.toFixed(1) + (system === 'imperial' ? ' mph' : ' km/h');
+}
+
+/**
+ * "5:30 /km" or "8:51 /mi", from meters per second; a dash without any speed
+ */
+export function formatPace(metersPerSecond: number | undefined, system: UnitSystem): string {
+  if (!metersPerSecond || metersPerSecond <= 0) return '–';
+
+  const seconds = Math.round((system === 'imperial' ? METERS_PER_MILE : 1000) / metersPerSecond);
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}` + (system === 'imperial' ? ' /mi' : ' /km');
+}
@@ -0,0 +1,183 @@
+import { promises as fs } from 'fs';
+import { inflateRawSync } from 'zlib';
+
+/**
+ * A file inside a zip archive
+ */
+export interface ZipEntry {
+  name: string;
+  compressionMethod: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const ZIP64_EXTRA_FIELD = 0x0001;
+const STORED = 0;
+const DEFLATED = 8;
+
+// End record (22 bytes) plus the longest possible archive comment
+const END_SEARCH_BYTES = 22 + 0xffff;
+
+/**
+ * Minimal reader for zip archives (including zip64, which large Strava exports need)
+ * Entries are read one at a time, so the archive is never loaded into memory whole
+ */
+export class ZipReader {
+  private file: fs.FileHandle;
+  private entries: ZipEntry[];
+
+  private constructor(file: fs.FileHandle, entries: ZipEntry[]) {
+    this.file = file;
+    this.entries = entries;
+  }
+
+  static async open(filePath: string): Promise<ZipReader> {
+    const file = await fs.open(filePath, 'r');
+
+    try {
+      return new ZipReader(file, await readCentralDirectory(file));
+    } catch (error) {
+      await file.close();
+      throw error;
+    }
+  }
+
+  getEntries(): ZipEntry[] {
+    return this.entries;
+  }
+
+  getEntry(name: string): ZipEntry | undefined {
+    return this.entries.find(entry => entry.name === name);
+  }
+
+  /**
+   * Read and decompress an entry
+   */
+  async read(entry: ZipEntry): Promise<Buffer> {
+    const header = await readAt(this.file, entry.localHeaderOffset, 30);
+    if (header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt zip entry ${entry.name}`);
+    }
+
+    const dataOffset = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    const data = await readAt(this.file, dataOffset, entry.compressedSize);
+
+    if (entry.compressionMethod === STORED) return data;
+    if (entry.compressionMethod === DEFLATED) return inflateRawSync(data);
+
+    throw new Error(`Unsupported compression method ${entry.compressionMethod} for ${entry.name}`);
+  }
+
+  async close(): Promise<void> {
+    await this.file.close();
+  }
+}
+
+async function readAt(file: fs.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await file.read(buffer, 0, length, position);
+  if (bytesRead !== length) {
+    throw new Error('Unexpected end of zip archive');
+  }
+  return buffer;
+}
+
+async function readCentralDirectory(file: fs.FileHandle): Promise<ZipEntry[]> {
+  const { size } = await file.stat();
+  const tailLength = Math.min(size, END_SEARCH_BYTES);
+  const tailStart = size - tailLength;
+  const tail = await readAt(file, tailStart, tailLength);
+
+  let end = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Not a zip archive');
+  }
+
+  let entryCount = tail.readUInt16LE(end + 10);
+  let directorySize = tail.readUInt32LE(end + 12);
+  let directoryOffset = tail.readUInt32LE(end + 16);
+
+  // Zip64 archives keep the real values in a separate record, found through the locator just before
+  if (end >= 20 && tail.readUInt32LE(end - 20) === ZIP64_LOCATOR) {
+    const record = await readAt(file, Number(tail.readBigUInt64LE(end - 20 + 8)), 56);
+    if (record.readUInt32LE(0) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+      throw new Error('Corrupt zip64 archive');
+    }
+    entryCount = Number(record.readBigUInt64LE(32));
+    directorySize = Number(record.readBigUInt64LE(40));
+    directoryOffset = Number(record.readBigUInt64LE(48));
+  }
+
+  const directory = await readAt(file, directoryOffset, directorySize);
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt zip central directory');
+    }
+
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    const name = directory.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const entry: ZipEntry = {
+      name,
+      compressionMethod: directory.readUInt16LE(offset + 10),
+      compressedSize: directory.readUInt32LE(offset + 20),
+      size: directory.readUInt32LE(offset + 24),
+      localHeaderOffset: directory.readUInt32LE(offset + 42)
+    };
+
+    readZip64Extra(directory.subarray(offset + 46 + nameLength, offset + 46 + nameLength + extraLength), entry);
+
+    if (!name.endsWith('/')) {
+      entries.push(entry);
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Sizes and offsets too big for 32 bits are stored as 0xffffffff, with the real value in the zip64 extra field
+ */
+function readZip64Extra(extra: Buffer, entry: ZipEntry) {
+  let offset = 0;
+
+  while (offset + 4 <= extra.length) {
+    const id = extra.readUInt16LE(offset);
+    const length = extra.readUInt16LE(offset + 2);
+
+    if (id === ZIP64_EXTRA_FIELD) {
+      let position = offset + 4;
+      const next = () => {
+        const value = Number(extra.readBigUInt64LE(position));
+        position += 8;
+        return value;
+      };
+
+      if (entry.size === 0xffffffff) entry.size = next();
+      if (entry.compressedSize === 0xffffffff) entry.compressedSize = next();
+      if (entry.localHeaderOffset === 0xffffffff) entry.localHeaderOffset = next();
+      return;
+    }
+
+    offset += 4 + length;
+  }
+}
@@ -0,0 +1,19 @@
+declare module 'all-the-cities' {
+  interface City {
+    cityId: number;
+    name: string;
+    altName: string;
+    country: string;
+    featureCode: string;
+    adminCode: string;
+    population: number;
+    loc: {
+      type: 'Point';
+      // [longitude, latitude]
+      coordinates: [number, number];
+    };
+  }
+
+  const cities: City[];
+  export default cities;
+}